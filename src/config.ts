@@ -0,0 +1,46 @@
+// Site-wide configuration read from the environment
+
+/**
+ * Normalise a base URL: no trailing slash
+ */
+function baseUrl(value: string): string {
+  return value.replace(/\/+$/, "");
+}
+
+export const config = {
+  // Public address of the site, used for links in emails, feeds and sitemaps
+  // (SITE_URL; falls back to FRONTEND_URL for older deployments)
+  siteUrl: baseUrl(
+    process.env.SITE_URL || process.env.FRONTEND_URL || "http://localhost:3000"
+  ),
+
+  // Browser origin allowed to call the API (CORS)
+  frontendUrl: process.env.FRONTEND_URL || "http://localhost:3000",
+
+  // Name used in email subjects and sign-offs and as the feed title
+  siteName: process.env.SITE_NAME || "Blog",
+
+  // Link gzip-compressed sitemaps (sitemap-N.xml.gz) from the sitemap index
+  sitemapGzip: process.env.SITEMAP_GZIP === "true",
+
+  // Redis connection shared by the workers (cache, cache invalidation, rate limits)
+  redisUrl: process.env.REDIS_URL || null,
+
+  // Cache backend: "redis" shares entries across workers, "memory" keeps them per
+  // process (CACHE_BACKEND; defaults to redis when REDIS_URL is set)
+  cacheBackend: (process.env.CACHE_BACKEND || (process.env.REDIS_URL ? "redis" : "memory")) as
+    | "redis"
+    | "memory",
+
+  // URL locally stored media is served under (the API's /media path by default)
+  mediaPublicUrl: baseUrl(
+    process.env.MEDIA_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/media`
+  ),
+};
+
+/**
+ * Public URL of a blog post
+ */
+export function postUrl(slug: string): string {
+  return `${config.siteUrl}/blog/${encodeURIComponent(slug)}`;
+}
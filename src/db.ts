@@ -34,6 +34,20 @@ export async function withClient<T>(
 // Export the drizzle instance
 export const db = drizzle(pool);
 
+// Transaction handle passed to db.transaction callbacks
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Anything that can run queries: the shared instance or an open transaction
+export type Executor = typeof db | Transaction;
+
+/**
+ * Check whether an error is a Postgres unique constraint violation
+ * Drizzle wraps driver errors, so the code may be on the error or its cause
+ */
+export function isUniqueViolation(error: any): boolean {
+  return error?.code === "23505" || error?.cause?.code === "23505";
+}
+
 // Database initialization with migrations
 export async function init() {
   try {
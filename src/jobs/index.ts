@@ -0,0 +1,82 @@
+// Job types run by the background worker
+import { inArray } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { defineJob, pruneCompletedJobs, startJobWorker } from "./queue";
+import { purgeTrash } from "./purge-trash";
+import { publishDuePosts } from "./publish-scheduled";
+import { deliverEmail, EMAIL_JOB, EmailMessage } from "../notifications";
+import { deliverWebhook, emitWebhookEvent, webhookPost, WEBHOOK_JOB } from "../webhooks";
+import { invalidateBlogCache } from "../utils/cache";
+
+/**
+ * Register every job type
+ */
+function defineJobs() {
+  defineJob(EMAIL_JOB, {
+    maxAttempts: 5,
+    handler: async (message: EmailMessage) => {
+      await deliverEmail(message);
+    },
+  });
+
+  defineJob(WEBHOOK_JOB, {
+    maxAttempts: 8,
+    handler: async ({ deliveryId }: { deliveryId: string }, job) => {
+      const delivery = await deliverWebhook(deliveryId, job.attempts >= job.maxAttempts);
+      // Throwing schedules a retry with backoff
+      if (delivery && delivery.status !== "succeeded") {
+        throw new Error(delivery.lastError || "Webhook delivery failed");
+      }
+    },
+  });
+
+  defineJob("posts.publish_scheduled", {
+    everyMs: 60 * 1000, // Every minute
+    handler: async () => {
+      const published = await publishDuePosts();
+      if (!published.length) return;
+
+      console.log(`📰 Published ${published.length} scheduled blog post(s)`);
+      const posts = await db
+        .select()
+        .from(blogs)
+        .where(inArray(blogs.id, published))
+        .execute();
+      for (const post of posts) {
+        await invalidateBlogCache(post.id);
+        emitWebhookEvent("post.published", { post: webhookPost(post) });
+      }
+    },
+  });
+
+  defineJob("trash.purge", {
+    everyMs: 60 * 60 * 1000, // Every hour
+    handler: async () => {
+      const purged = await purgeTrash();
+      if (purged > 0) {
+        console.log(`🗑️ Purged ${purged} blog post(s) from the trash`);
+      }
+    },
+  });
+
+  defineJob("jobs.prune", {
+    everyMs: 24 * 60 * 60 * 1000, // Daily
+    handler: async () => {
+      const pruned = await pruneCompletedJobs();
+      if (pruned > 0) {
+        console.log(`⚙️ Pruned ${pruned} completed job(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Register job types and start the worker in this process
+ * Safe to call in every cluster worker: each job is claimed by one of them
+ * @returns A function that stops the worker once running jobs finish
+ */
+export function startJobs(): () => Promise<void> {
+  defineJobs();
+  return startJobWorker();
+}
@@ -0,0 +1,69 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { adminAuditLog, blogs } from "../schema";
+import { publishDuePosts } from "./publish-scheduled";
+
+describe("publishDuePosts", requiresDatabase, () => {
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+  beforeEach(resetTestDatabase);
+
+  const schedule = async (slug: string, publishAt: Date) => {
+    const [blog] = await db
+      .insert(blogs)
+      .values({
+        title: slug,
+        slug,
+        content: "<p>Hello</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        status: "scheduled",
+        publishAt,
+      })
+      .returning()
+      .execute();
+    return blog;
+  };
+
+  test("publishes due posts and audits each one as a system action", async () => {
+    const publishAt = new Date(Date.now() - 60 * 1000);
+    const due = await schedule("due", publishAt);
+    const later = await schedule("later", new Date(Date.now() + 60 * 60 * 1000));
+
+    assert.deepEqual(await publishDuePosts(), [due.id]);
+
+    const [published] = await db.select().from(blogs).where(eq(blogs.id, due.id)).execute();
+    assert.equal(published.status, "published");
+    assert.equal(published.publishAt, null);
+    assert.deepEqual(published.publishedAt, publishAt);
+    const [waiting] = await db.select().from(blogs).where(eq(blogs.id, later.id)).execute();
+    assert.equal(waiting.status, "scheduled");
+
+    const entries = await db.select().from(adminAuditLog).execute();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].action, "blog.status_change");
+    assert.equal(entries[0].targetId, due.id);
+    assert.equal(entries[0].adminId, null);
+    assert.deepEqual(entries[0].before, {
+      status: "scheduled",
+      publishAt: publishAt.toISOString(),
+    });
+    assert.deepEqual(entries[0].after, { status: "published", publishAt: null });
+  });
+
+  test("does nothing when no post is due", async () => {
+    await schedule("later", new Date(Date.now() + 60 * 60 * 1000));
+
+    assert.deepEqual(await publishDuePosts(), []);
+    assert.equal((await db.select().from(adminAuditLog).execute()).length, 0);
+  });
+});
@@ -0,0 +1,52 @@
+// Job: publish scheduled blog posts once their publish_at time arrives
+// Runs every minute on the job queue (see jobs/index.ts)
+import { and, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { recordSystemAudit } from "../utils/audit";
+
+/**
+ * Publish every scheduled post whose publish_at has passed
+ * Each post published is recorded in the audit log
+ * @returns IDs of the posts published
+ */
+export async function publishDuePosts(): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    const due = await tx
+      .select({ id: blogs.id, publishAt: blogs.publishAt })
+      .from(blogs)
+      .where(
+        and(
+          eq(blogs.status, "scheduled"),
+          lte(blogs.publishAt, sql`now()`),
+          isNull(blogs.deletedAt)
+        )
+      )
+      .for("update")
+      .execute();
+    if (!due.length) return [];
+
+    await tx
+      .update(blogs)
+      .set({
+        status: "published",
+        publishedAt: sql`coalesce(${blogs.publishedAt}, ${blogs.publishAt})`,
+        publishAt: null,
+        lastModified: sql`now()`,
+      })
+      .where(inArray(blogs.id, due.map((post) => post.id)))
+      .execute();
+
+    for (const post of due) {
+      await recordSystemAudit(tx, {
+        action: "blog.status_change",
+        targetType: "blog",
+        targetId: post.id,
+        before: { status: "scheduled", publishAt: post.publishAt },
+        after: { status: "published", publishAt: null },
+      });
+    }
+
+    return due.map((post) => post.id);
+  });
+}
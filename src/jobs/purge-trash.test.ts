@@ -0,0 +1,56 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../db";
+import { adminAuditLog, blogs } from "../schema";
+import { purgeTrash, TRASH_RETENTION_DAYS } from "./purge-trash";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("purgeTrash", requiresDatabase, () => {
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+  beforeEach(resetTestDatabase);
+
+  const trash = async (slug: string, deletedAt: Date) => {
+    const [blog] = await db
+      .insert(blogs)
+      .values({
+        title: slug,
+        slug,
+        content: "<p>Hello</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        deletedAt,
+      })
+      .returning()
+      .execute();
+    return blog;
+  };
+
+  test("purges expired posts and audits each one as a system action", async () => {
+    const expired = await trash(
+      "expired",
+      new Date(Date.now() - (TRASH_RETENTION_DAYS + 1) * DAY_MS)
+    );
+    const recent = await trash("recent", new Date(Date.now() - DAY_MS));
+
+    assert.equal(await purgeTrash(), 1);
+
+    const remaining = await db.select({ id: blogs.id }).from(blogs).execute();
+    assert.deepEqual(remaining, [{ id: recent.id }]);
+
+    const entries = await db.select().from(adminAuditLog).execute();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].action, "blog.purge");
+    assert.equal(entries[0].targetId, expired.id);
+    assert.equal(entries[0].adminId, null);
+    assert.equal((entries[0].before as any).slug, "expired");
+  });
+});
@@ -0,0 +1,45 @@
+// Job: permanently delete blog posts that have been in the trash too long
+// Runs hourly on the job queue (see jobs/index.ts)
+import { lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { recordSystemAudit } from "../utils/audit";
+
+// Days a post stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30);
+
+/**
+ * When a post trashed at the given time becomes eligible for purging
+ */
+export function purgeDate(deletedAt: Date | null): Date | null {
+  if (!deletedAt) return null;
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Hard-delete posts trashed more than TRASH_RETENTION_DAYS ago
+ * Each post purged is recorded in the audit log
+ * @returns Number of posts purged
+ */
+export async function purgeTrash(): Promise<number> {
+  return db.transaction(async (tx) => {
+    const purged = await tx
+      .delete(blogs)
+      .where(
+        lt(blogs.deletedAt, sql`now() - make_interval(days => ${TRASH_RETENTION_DAYS})`)
+      )
+      .returning()
+      .execute();
+
+    for (const post of purged) {
+      await recordSystemAudit(tx, {
+        action: "blog.purge",
+        targetType: "blog",
+        targetId: post.id,
+        before: post,
+      });
+    }
+
+    return purged.length;
+  });
+}
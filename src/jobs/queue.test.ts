@@ -0,0 +1,201 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { jobs } from "../schema";
+import { waitFor } from "../testing/wait";
+import {
+  defineJob,
+  enqueueJob,
+  getJob,
+  retryDelayMs,
+  retryJob,
+  startJobWorker,
+} from "./queue";
+
+/**
+ * Insert a job that has used up its attempts
+ */
+async function insertDeadJob(dedupeKey: string | null = null): Promise<string> {
+  const [job] = await db
+    .insert(jobs)
+    .values({ type: "test.job", status: "dead", attempts: 5, dedupeKey })
+    .returning({ id: jobs.id })
+    .execute();
+  return job.id;
+}
+
+describe("retryDelayMs", () => {
+  test("doubles from 30 seconds up to an hour, with up to 10% jitter", () => {
+    const cases: [number, number][] = [
+      [1, 30 * 1000],
+      [2, 60 * 1000],
+      [3, 120 * 1000],
+      [20, 60 * 60 * 1000],
+    ];
+    for (const [attempts, base] of cases) {
+      const delay = retryDelayMs(attempts);
+      assert.ok(delay >= base && delay <= base * 1.1, `attempt ${attempts}: ${delay}ms`);
+    }
+  });
+});
+
+describe("job queue", requiresDatabase, () => {
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+  beforeEach(resetTestDatabase);
+
+  describe("enqueueJob", () => {
+    test("skips a job whose dedupe key is already queued", async () => {
+      const first = await enqueueJob("test.job", {}, { dedupeKey: "only-one" });
+
+      assert.ok(first);
+      assert.equal(await enqueueJob("test.job", {}, { dedupeKey: "only-one" }), null);
+
+      // Allowed again once the first one is done
+      await db.update(jobs).set({ status: "completed" }).where(eq(jobs.id, first)).execute();
+      assert.ok(await enqueueJob("test.job", {}, { dedupeKey: "only-one" }));
+    });
+  });
+
+  describe("job worker", () => {
+    let stopWorker: (() => Promise<void>) | null = null;
+
+    const waitForStatus = (id: string, status: string) =>
+      waitFor(async () => {
+        const job = await getJob(id);
+        return job.status === status && job;
+      });
+
+    afterEach(async () => {
+      if (stopWorker) await stopWorker();
+      stopWorker = null;
+    });
+
+    test("runs a job with its payload and marks it completed", async () => {
+      const payloads: unknown[] = [];
+      defineJob("test.record", { handler: async (payload) => void payloads.push(payload) });
+
+      const id = await enqueueJob("test.record", { n: 1 });
+      stopWorker = startJobWorker();
+
+      const job = await waitForStatus(id, "completed");
+      assert.deepEqual(payloads, [{ n: 1 }]);
+      assert.equal(job.attempts, 1);
+      assert.ok(job.completedAt);
+      assert.equal(job.lockedBy, null);
+    });
+
+    test("doesn't run jobs before their time", async () => {
+      let runs = 0;
+      defineJob("test.later", { handler: async () => void runs++ });
+
+      const id = await enqueueJob("test.later", {}, { runAt: new Date(Date.now() + 60 * 1000) });
+      stopWorker = startJobWorker();
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      assert.equal(runs, 0);
+      assert.equal((await getJob(id)).status, "queued");
+    });
+
+    test("re-queues a failed job with a backoff, then moves it to dead letters", async () => {
+      defineJob("test.fail", {
+        maxAttempts: 2,
+        handler: async () => {
+          throw new Error("Something broke");
+        },
+      });
+
+      const id = await enqueueJob("test.fail");
+      stopWorker = startJobWorker();
+
+      const retrying = await waitFor(async () => {
+        const job = await getJob(id);
+        return job.attempts === 1 && job.status === "queued" && job;
+      });
+      assert.match(retrying.lastError, /Something broke/);
+      assert.ok(retrying.runAt.getTime() > Date.now() + 20 * 1000);
+
+      // Skip the backoff
+      await db.update(jobs).set({ runAt: new Date() }).where(eq(jobs.id, id)).execute();
+      const dead = await waitForStatus(id, "dead");
+      assert.equal(dead.attempts, 2);
+    });
+
+    test("recovers jobs left running by a crashed worker", async () => {
+      defineJob("test.stale", { handler: async () => {} });
+      const lockedAt = new Date(Date.now() - 60 * 60 * 1000);
+      const [retried, spent] = await db
+        .insert(jobs)
+        .values([
+          { type: "test.stale", status: "running", attempts: 1, lockedAt, lockedBy: "gone:1" },
+          {
+            type: "test.stale",
+            status: "running",
+            attempts: 3,
+            maxAttempts: 3,
+            lockedAt,
+            lockedBy: "gone:2",
+          },
+        ])
+        .returning({ id: jobs.id })
+        .execute();
+
+      stopWorker = startJobWorker();
+
+      // Back in the queue and run again
+      const completed = await waitForStatus(retried.id, "completed");
+      assert.equal(completed.attempts, 2);
+
+      // Out of attempts: dead, not re-run
+      const dead = await waitForStatus(spent.id, "dead");
+      assert.equal(dead.attempts, 3);
+      assert.equal(dead.lockedBy, null);
+      assert.equal(dead.lastError, "Worker stopped while running the job");
+    });
+
+    test("fails jobs of unknown types", async () => {
+      const id = await enqueueJob("test.unknown", {}, { maxAttempts: 1 });
+      stopWorker = startJobWorker();
+
+      const job = await waitForStatus(id, "dead");
+      assert.match(job.lastError, /No handler registered for job type "test.unknown"/);
+    });
+  });
+
+  describe("retryJob", () => {
+    test("re-queues a dead job with fresh attempts", async () => {
+      const id = await insertDeadJob();
+
+      const job = await retryJob(id);
+
+      assert.equal(job.status, "queued");
+      assert.equal(job.attempts, 0);
+    });
+
+    test("leaves jobs that aren't dead alone", async () => {
+      const id = await enqueueJob("test.job");
+
+      assert.equal(await retryJob(id), null);
+      assert.equal((await getJob(id)).status, "queued");
+    });
+
+    test("keeps a recurring job dead while its next run is queued", async () => {
+      const deadId = await insertDeadJob("recurring:test.job");
+      const nextId = await enqueueJob("test.job", {}, { dedupeKey: "recurring:test.job" });
+
+      assert.equal(await retryJob(deadId), null);
+      assert.equal((await getJob(deadId)).status, "dead");
+
+      // Retrying works again once the other run is done
+      await db.update(jobs).set({ status: "completed" }).where(eq(jobs.id, nextId)).execute();
+      assert.equal((await retryJob(deadId)).status, "queued");
+    });
+  });
+});
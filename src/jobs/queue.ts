@@ -0,0 +1,388 @@
+// Durable background job queue backed by the jobs table
+// Workers in every cluster process poll the same table; FOR UPDATE SKIP LOCKED
+// hands each due job to exactly one of them
+import os from "os";
+import { and, asc, count, desc, eq, inArray, lt, lte, notExists, sql, SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db, Executor } from "../db";
+import { jobs } from "../schema";
+
+export type Job = typeof jobs.$inferSelect;
+
+/**
+ * Job states: queued → running → completed, or back to queued for a retry,
+ * or dead once every attempt has failed
+ */
+export const JOB_STATUSES = ["queued", "running", "completed", "dead"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Runs one job; throwing marks the attempt as failed
+ */
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+/**
+ * How a job type is run
+ */
+export interface JobDefinition {
+  handler: JobHandler;
+  // Attempts before the job is marked dead (default 5)
+  maxAttempts?: number;
+  // Re-run this often, forever; one instance is kept queued across the cluster
+  everyMs?: number;
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+  // Earliest time to run (default: now)
+  runAt?: Date;
+  maxAttempts?: number;
+  // Skip enqueueing if a queued/running job with this key already exists
+  dedupeKey?: string;
+  // Enqueue as part of an open transaction
+  executor?: Executor;
+}
+
+// Identifies this process in locked_by
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// How often idle workers look for due jobs
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 1000);
+
+// Jobs claimed per poll
+const BATCH_SIZE = 5;
+
+// Running jobs locked longer than this are assumed orphaned by a crashed worker
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+
+// Completed jobs are deleted after this many days
+const COMPLETED_RETENTION_DAYS = Number(process.env.JOB_RETENTION_DAYS || 7);
+
+// Retry backoff: 30s, 1m, 2m, ... capped at 1 hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+const definitions = new Map<string, JobDefinition>();
+
+/**
+ * Register the handler for a job type
+ */
+export function defineJob(type: string, definition: JobDefinition) {
+  definitions.set(type, definition);
+}
+
+/**
+ * Delay before retrying a job that has failed `attempts` times
+ */
+export function retryDelayMs(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  // Up to 10% jitter so failed jobs don't retry in lockstep
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+/**
+ * Add a job to the queue
+ * @returns The job ID, or null if a job with the same dedupe key is pending
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<string | null> {
+  const [job] = await (options.executor || db)
+    .insert(jobs)
+    .values({
+      type,
+      payload,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts ?? definitions.get(type)?.maxAttempts,
+      dedupeKey: options.dedupeKey,
+    })
+    .onConflictDoNothing({
+      target: jobs.dedupeKey,
+      where: sql`${jobs.dedupeKey} IS NOT NULL AND ${jobs.status} IN ('queued', 'running')`,
+    })
+    .returning({ id: jobs.id })
+    .execute();
+
+  return job?.id ?? null;
+}
+
+/**
+ * Claim up to `limit` due jobs for this worker
+ */
+async function claimJobs(limit: number): Promise<Job[]> {
+  const due = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, new Date())))
+    .orderBy(asc(jobs.runAt))
+    .limit(limit)
+    .for("update", { skipLocked: true });
+
+  return db
+    .update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedAt: new Date(),
+      lockedBy: WORKER_ID,
+      updatedAt: new Date(),
+    })
+    .where(inArray(jobs.id, due))
+    .returning()
+    .execute();
+}
+
+/**
+ * Put jobs left running by a crashed worker back in the queue, or move them
+ * to dead letters if that was their last attempt
+ */
+async function recoverStaleJobs() {
+  const recovered = await db
+    .update(jobs)
+    .set({
+      status: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN 'dead' ELSE 'queued' END`,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: "Worker stopped while running the job",
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(jobs.status, "running"),
+        lt(jobs.lockedAt, new Date(Date.now() - LOCK_TIMEOUT_MS))
+      )
+    )
+    .returning({ id: jobs.id, status: jobs.status })
+    .execute();
+
+  const dead = recovered.filter((job) => job.status === "dead").length;
+  if (recovered.length > dead) {
+    console.warn(`⚙️ Re-queued ${recovered.length - dead} stale job(s)`);
+  }
+  if (dead) {
+    console.warn(`⚙️ Moved ${dead} stale job(s) with no attempts left to dead letters`);
+  }
+}
+
+/**
+ * Make sure each recurring job type has one instance queued
+ */
+async function ensureRecurringJobs() {
+  for (const [type, definition] of definitions) {
+    if (definition.everyMs) {
+      await enqueueJob(type, {}, { dedupeKey: `recurring:${type}` });
+    }
+  }
+}
+
+/**
+ * Run a claimed job and record the outcome
+ */
+async function runJob(job: Job) {
+  const definition = definitions.get(job.type);
+
+  try {
+    if (!definition) throw new Error(`No handler registered for job type "${job.type}"`);
+    await definition.handler(job.payload, job);
+
+    await db
+      .update(jobs)
+      .set({
+        status: "completed",
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id))
+      .execute();
+  } catch (error) {
+    const dead = job.attempts >= job.maxAttempts;
+    const message = error instanceof Error ? error.stack || error.message : String(error);
+
+    await db
+      .update(jobs)
+      .set({
+        status: dead ? "dead" : "queued",
+        runAt: dead ? undefined : new Date(Date.now() + retryDelayMs(job.attempts)),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message.slice(0, 4000),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id))
+      .execute();
+
+    console.error(
+      `⚙️ Job ${job.type} (${job.id}) failed on attempt ${job.attempts}/${job.maxAttempts}${
+        dead ? "; moved to dead letters" : ""
+      }:`,
+      error
+    );
+  } finally {
+    // Queue the next run of a recurring job whether or not this one succeeded
+    if (definition?.everyMs) {
+      await enqueueJob(
+        job.type,
+        {},
+        {
+          runAt: new Date(Date.now() + definition.everyMs),
+          dedupeKey: `recurring:${job.type}`,
+        }
+      ).catch((error) =>
+        console.error(`Failed to reschedule recurring job ${job.type}:`, error)
+      );
+    }
+  }
+}
+
+/**
+ * Delete completed jobs older than JOB_RETENTION_DAYS
+ * Dead jobs are kept until someone retries or inspects them
+ * @returns Number of jobs deleted
+ */
+export async function pruneCompletedJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - COMPLETED_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await db
+    .delete(jobs)
+    .where(and(eq(jobs.status, "completed"), lt(jobs.completedAt, cutoff)))
+    .returning({ id: jobs.id })
+    .execute();
+  return deleted.length;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+}
+
+/**
+ * List jobs, most recently updated first
+ */
+export async function listJobs(
+  filters: JobFilters,
+  limit: number,
+  offset: number
+): Promise<{ rows: Job[]; total: number }> {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(jobs.status, filters.status));
+  if (filters.type) conditions.push(eq(jobs.type, filters.type));
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(jobs)
+      .where(where)
+      .orderBy(desc(jobs.updatedAt))
+      .limit(limit)
+      .offset(offset)
+      .execute(),
+    db.select({ total: count() }).from(jobs).where(where).execute(),
+  ]);
+
+  return { rows, total };
+}
+
+/**
+ * Fetch one job by ID
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, id)).execute();
+  return job ?? null;
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ * A job whose dedupe key is taken by a queued or running job (e.g. the next
+ * run of a recurring job) stays dead
+ * @returns The re-queued job, or null if no dead job with a free dedupe key has this ID
+ */
+export async function retryJob(id: string): Promise<Job | null> {
+  const pending = alias(jobs, "pending");
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "queued",
+      attempts: 0,
+      runAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(jobs.id, id),
+        eq(jobs.status, "dead"),
+        notExists(
+          db
+            .select({ id: pending.id })
+            .from(pending)
+            .where(
+              and(
+                eq(pending.dedupeKey, jobs.dedupeKey),
+                inArray(pending.status, ["queued", "running"])
+              )
+            )
+        )
+      )
+    )
+    .returning()
+    .execute();
+  return job ?? null;
+}
+
+/**
+ * Start polling for jobs in this process
+ * @returns A function that stops polling and resolves once running jobs finish
+ */
+export function startJobWorker(): () => Promise<void> {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let current: Promise<void> = Promise.resolve();
+  let lastRecovery = 0;
+
+  const poll = async () => {
+    if (stopped) return;
+
+    let claimed = 0;
+    try {
+      if (Date.now() - lastRecovery > LOCK_TIMEOUT_MS / 2) {
+        lastRecovery = Date.now();
+        await recoverStaleJobs();
+        await ensureRecurringJobs();
+      }
+
+      const batch = await claimJobs(BATCH_SIZE);
+      claimed = batch.length;
+      await Promise.all(batch.map(runJob));
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+
+    if (!stopped) {
+      // Keep going straight away while there is work
+      timer = setTimeout(tick, claimed === BATCH_SIZE ? 0 : POLL_INTERVAL_MS);
+      timer.unref();
+    }
+  };
+
+  const tick = () => {
+    current = poll();
+  };
+
+  tick();
+
+  return async () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    await current;
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { processImage, sniffImage } from "./images";
+
+/**
+ * A solid-colour test image
+ */
+function solidImage(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: "#c33" } });
+}
+
+describe("sniffImage", () => {
+  test("identifies images by their content, not their name or MIME type", async () => {
+    const png = await solidImage(10, 10).png().toBuffer();
+    const jpeg = await solidImage(10, 10).jpeg().toBuffer();
+
+    assert.deepEqual(await sniffImage(png), { format: "png", mimeType: "image/png", extension: "png" });
+    assert.deepEqual(await sniffImage(jpeg), { format: "jpeg", mimeType: "image/jpeg", extension: "jpg" });
+  });
+
+  test("rejects SVG, which can carry scripts", async () => {
+    const svg = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><script>alert(1)</script></svg>'
+    );
+    assert.equal(await sniffImage(svg), null);
+  });
+
+  test("rejects files that aren't images at all", async () => {
+    assert.equal(await sniffImage(Buffer.from("<?php echo 'hi'; ?>")), null);
+    assert.equal(await sniffImage(Buffer.alloc(0)), null);
+  });
+});
+
+describe("processImage", () => {
+  test("drops EXIF metadata and applies the orientation to the pixels", async () => {
+    const photo = await solidImage(40, 20)
+      .jpeg()
+      .withExif({ IFD0: { Make: "TestCam", Copyright: "Someone" } })
+      .withMetadata({ orientation: 6 }) // Rotate 90° on display
+      .toBuffer();
+    assert.ok((await sharp(photo).metadata()).exif);
+
+    const [original] = await processImage(photo, await sniffImage(photo));
+    const metadata = await sharp(original.buffer).metadata();
+
+    assert.equal(metadata.exif, undefined);
+    assert.equal(metadata.orientation, undefined);
+    assert.equal(original.buffer.includes("TestCam"), false);
+    // Upright: width and height swapped
+    assert.deepEqual([original.width, original.height], [20, 40]);
+    assert.deepEqual([metadata.width, metadata.height], [20, 40]);
+  });
+
+  test("makes a square thumbnail and only the sizes narrower than the original", async () => {
+    const image = await solidImage(1000, 500).png().toBuffer();
+
+    const files = await processImage(image, await sniffImage(image));
+
+    assert.deepEqual(
+      files.map((file) => [file.name, file.width, file.height]),
+      [
+        ["original", 1000, 500],
+        ["thumb", 200, 200],
+        ["w320", 320, 160],
+        ["w640", 640, 320],
+      ]
+    );
+    for (const file of files) {
+      assert.equal((await sharp(file.buffer).metadata()).format, "png");
+    }
+  });
+});
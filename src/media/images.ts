@@ -0,0 +1,102 @@
+// Image inspection and processing for uploads
+import sharp, { Sharp, FormatEnum } from "sharp";
+
+/**
+ * Image formats accepted for upload, by sharp format name
+ * SVG is deliberately missing: it can carry scripts
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+// File extension used for stored files of each format
+const EXTENSIONS: Record<string, string> = {
+  jpeg: "jpg",
+  png: "png",
+  webp: "webp",
+  gif: "gif",
+  avif: "avif",
+};
+
+// Responsive widths generated for images wider than them
+export const VARIANT_WIDTHS = [320, 640, 1280];
+
+// Square thumbnail edge, in pixels
+const THUMBNAIL_SIZE = 200;
+
+// Refuse decompression bombs: images above this many pixels are rejected
+const MAX_INPUT_PIXELS = 40 * 1000 * 1000;
+
+/**
+ * What an uploaded file turned out to be, judged by its content
+ */
+export interface SniffedImage {
+  format: string; // sharp format name, e.g. "jpeg"
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * A processed image ready to store
+ */
+export interface ProcessedImage {
+  name: string; // "original", "thumb", "w320", ...
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Identify an image from its bytes, ignoring the client's filename and MIME type
+ * @returns null if it isn't an image format we accept
+ */
+export async function sniffImage(buffer: Buffer): Promise<SniffedImage | null> {
+  try {
+    const { format } = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    if (!format || !IMAGE_MIME_TYPES[format]) return null;
+    return { format, mimeType: IMAGE_MIME_TYPES[format], extension: EXTENSIONS[format] };
+  } catch {
+    // Not an image sharp can decode
+    return null;
+  }
+}
+
+/**
+ * Re-encode an upload and generate its thumbnail and responsive sizes
+ * Re-encoding drops EXIF and other metadata (camera, GPS...); the EXIF
+ * orientation is applied to the pixels first so photos stay upright
+ */
+export async function processImage(
+  buffer: Buffer,
+  image: SniffedImage
+): Promise<ProcessedImage[]> {
+  const animated = image.format === "gif" || image.format === "webp";
+
+  const encode = async (name: string, transform: (input: Sharp) => Sharp) => {
+    const input = sharp(buffer, { animated, limitInputPixels: MAX_INPUT_PIXELS });
+    const { data, info } = await transform(animated ? input : input.rotate())
+      .toFormat(image.format as keyof FormatEnum)
+      .toBuffer({ resolveWithObject: true });
+    return { name, buffer: data, width: info.width, height: info.pageHeight || info.height };
+  };
+
+  const original = await encode("original", (input) => input);
+  const results: ProcessedImage[] = [original];
+
+  results.push(
+    await encode("thumb", (input) =>
+      input.resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    )
+  );
+
+  for (const width of VARIANT_WIDTHS) {
+    if (width >= original.width) break;
+    results.push(await encode(`w${width}`, (input) => input.resize({ width })));
+  }
+
+  return results;
+}
@@ -0,0 +1,246 @@
+// Uploaded media: storing images and linking them from post content
+// Authors upload an image, get back a "media:<id>" reference, and use it as an
+// <img> src (or Markdown image URL); renderContent() rewrites those references
+// to the stored files with responsive srcsets
+import path from "path";
+import crypto from "crypto";
+import express, { RequestHandler } from "express";
+import { inArray, eq } from "drizzle-orm";
+import sanitizeHtml from "sanitize-html";
+import { db } from "../db";
+import { media } from "../schema";
+import { config } from "../config";
+import { MediaStorage, MediaVariant } from "./types";
+import { LocalDiskStorage } from "./storage/local";
+import { S3Storage } from "./storage/s3";
+import { sniffImage, processImage, IMAGE_MIME_TYPES } from "./images";
+
+export { MediaStorage, MediaVariant } from "./types";
+
+export type Media = typeof media.$inferSelect;
+
+// Largest accepted upload
+export const MEDIA_MAX_BYTES = Number(process.env.MEDIA_MAX_BYTES || 5 * 1024 * 1024); // 5 MB
+
+// Accepted upload MIME types (the content is sniffed as well)
+export const MEDIA_MIME_TYPES = Object.values(IMAGE_MIME_TYPES);
+
+// Matches "media:<uuid>" references in content
+const MEDIA_REFERENCE = /media:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/gi;
+
+/**
+ * Thrown when an upload isn't an image format we accept
+ */
+export class UnsupportedMediaError extends Error {
+  constructor() {
+    super(`Only ${Object.keys(IMAGE_MIME_TYPES).join(", ")} images can be uploaded`);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+/**
+ * Pick the storage from MEDIA_STORAGE ("local" or "s3"; default local)
+ */
+function createStorage(): MediaStorage {
+  const kind = process.env.MEDIA_STORAGE || "local";
+
+  switch (kind) {
+    case "local":
+      return new LocalDiskStorage(
+        path.resolve(process.env.MEDIA_DIR || "uploads"),
+        config.mediaPublicUrl
+      );
+    case "s3":
+      return new S3Storage({
+        endpoint: process.env.S3_ENDPOINT || "https://s3.amazonaws.com",
+        region: process.env.S3_REGION || "us-east-1",
+        bucket: process.env.S3_BUCKET,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        publicUrl: process.env.S3_PUBLIC_URL,
+      });
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE "${kind}"`);
+  }
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Get the media storage, creating it on first use
+ */
+export function getMediaStorage(): MediaStorage {
+  storage = storage || createStorage();
+  return storage;
+}
+
+/**
+ * Replace the storage (e.g. with one pointing at a local S3 stand-in)
+ */
+export function setMediaStorage(next: MediaStorage) {
+  storage = next;
+}
+
+/**
+ * Static file handler for local disk storage, mounted at /media by server.ts
+ * @returns null when media is stored elsewhere
+ */
+export function localMediaHandler(): RequestHandler | null {
+  const current = getMediaStorage();
+  if (!(current instanceof LocalDiskStorage)) return null;
+
+  return express.static(current.directory, {
+    immutable: true,
+    maxAge: "365d", // Keys contain the content hash, so files never change
+    index: false,
+    setHeaders: (res) => {
+      // Images are embedded by the frontend, which runs on another origin
+      res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+    },
+  });
+}
+
+/**
+ * Public shape of a media record, with URLs for the file and its variants
+ */
+export function toPublicMedia(row: Media) {
+  const store = getMediaStorage();
+  return {
+    id: row.id,
+    reference: `media:${row.id}`,
+    url: store.url(row.storageKey),
+    mimeType: row.mimeType,
+    width: row.width,
+    height: row.height,
+    sizeBytes: row.sizeBytes,
+    originalName: row.originalName,
+    variants: row.variants.map((variant) => ({
+      name: variant.name,
+      url: store.url(variant.key),
+      width: variant.width,
+      height: variant.height,
+    })),
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Store an uploaded image with its thumbnail and responsive sizes
+ * Uploads are deduplicated by content hash
+ * @returns The media record and whether it was newly created
+ * @throws UnsupportedMediaError if the bytes aren't an accepted image
+ */
+export async function storeUpload(
+  buffer: Buffer,
+  originalName: string | null,
+  ipAddress: string | null
+): Promise<{ media: Media; created: boolean }> {
+  const contentHash = crypto.createHash("sha256").update(buffer).digest("hex");
+
+  const [existing] = await db
+    .select()
+    .from(media)
+    .where(eq(media.contentHash, contentHash))
+    .execute();
+  if (existing) return { media: existing, created: false };
+
+  const image = await sniffImage(buffer);
+  if (!image) throw new UnsupportedMediaError();
+
+  // Keys only depend on the content, so a concurrent upload of the same
+  // file writes the same objects
+  const store = getMediaStorage();
+  const keyFor = (name: string) =>
+    `${contentHash.slice(0, 2)}/${contentHash}/${name}.${image.extension}`;
+
+  const processed = await processImage(buffer, image);
+  for (const file of processed) {
+    await store.put(keyFor(file.name), file.buffer, image.mimeType);
+  }
+
+  const [original, ...rest] = processed;
+  const variants: MediaVariant[] = rest.map((file) => ({
+    name: file.name,
+    key: keyFor(file.name),
+    width: file.width,
+    height: file.height,
+    sizeBytes: file.buffer.length,
+  }));
+
+  const [inserted] = await db
+    .insert(media)
+    .values({
+      contentHash,
+      mimeType: image.mimeType,
+      sizeBytes: original.buffer.length,
+      width: original.width,
+      height: original.height,
+      originalName: originalName ? originalName.slice(0, 255) : null,
+      storageKey: keyFor(original.name),
+      variants,
+      ipAddress,
+    })
+    .onConflictDoNothing({ target: media.contentHash })
+    .returning()
+    .execute();
+
+  if (inserted) return { media: inserted, created: true };
+
+  // Lost a race with an identical upload
+  const [winner] = await db
+    .select()
+    .from(media)
+    .where(eq(media.contentHash, contentHash))
+    .execute();
+  return { media: winner, created: false };
+}
+
+/**
+ * Fetch one media record by ID
+ */
+export async function getMedia(id: string): Promise<Media | null> {
+  const [row] = await db.select().from(media).where(eq(media.id, id)).execute();
+  return row ?? null;
+}
+
+/**
+ * Build an <img> transform that points "media:<id>" references at the stored
+ * files, with a srcset of the responsive sizes and the intrinsic dimensions
+ * References to unknown media are left alone (sanitize() then drops the src)
+ * @returns undefined when the HTML references no media
+ */
+export async function mediaImageTransformer(
+  html: string
+): Promise<sanitizeHtml.Transformer | undefined> {
+  const ids = [...new Set([...html.matchAll(MEDIA_REFERENCE)].map((m) => m[1].toLowerCase()))];
+  if (!ids.length) return undefined;
+
+  const rows = await db.select().from(media).where(inArray(media.id, ids)).execute();
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const store = getMediaStorage();
+
+  return (tagName, attribs) => {
+    const match = /^media:(.+)$/i.exec(attribs.src || "");
+    const row = match && byId.get(match[1].toLowerCase());
+    if (!row) return { tagName, attribs };
+
+    const sizes = row.variants
+      .filter((variant) => variant.name !== "thumb")
+      .map((variant) => `${store.url(variant.key)} ${variant.width}w`);
+    sizes.push(`${store.url(row.storageKey)} ${row.width}w`);
+
+    return {
+      tagName,
+      attribs: {
+        ...attribs,
+        src: store.url(row.storageKey),
+        srcset: sizes.join(", "),
+        sizes: `(max-width: ${row.width}px) 100vw, ${row.width}px`,
+        width: String(row.width),
+        height: String(row.height),
+        loading: "lazy",
+      },
+    };
+  };
+}
@@ -0,0 +1,140 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import sharp from "sharp";
+import { S3StandIn } from "../testing/s3-stand-in";
+import mediaRoutes from "../routes/media";
+import { renderContent } from "../utils/markdown";
+import { S3Storage } from "./storage/s3";
+import { setMediaStorage } from ".";
+
+describe("media uploads", requiresDatabase, () => {
+  const bucket = new S3StandIn();
+  let server: http.Server;
+  let baseUrl: string;
+
+  const upload = async (bytes: Buffer, name: string, type: string) => {
+    const form = new FormData();
+    form.append("file", new Blob([bytes], { type }), name);
+    const response = await fetch(`${baseUrl}/api/media`, { method: "POST", body: form });
+    const body: any = await response.json();
+    return { status: response.status, body };
+  };
+
+  const photo = () =>
+    sharp({ create: { width: 800, height: 600, channels: 3, background: "#36c" } })
+      .jpeg()
+      .withExif({ IFD0: { Make: "TestCam", Artist: "Someone" } })
+      .toBuffer();
+
+  before(async () => {
+    await migrateTestDatabase();
+    await bucket.start();
+    setMediaStorage(new S3Storage(bucket.storageOptions));
+
+    const app = express();
+    app.use("/api/media", mediaRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await bucket.stop();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    bucket.objects.clear();
+    bucket.requests.length = 0;
+  });
+
+  test("rejects a file whose claimed type doesn't match its content", async () => {
+    const svg = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>'
+    );
+
+    const { status, body } = await upload(svg, "photo.png", "image/png");
+
+    assert.equal(status, 415);
+    assert.equal(body.error.code, "UNSUPPORTED_MEDIA_TYPE");
+    assert.equal(bucket.requests.length, 0);
+  });
+
+  test("stores the re-encoded image under its content hash", async () => {
+    const bytes = await photo();
+    const hash = crypto.createHash("sha256").update(bytes).digest("hex");
+
+    const { status, body } = await upload(bytes, "holiday.jpg", "image/jpeg");
+
+    assert.equal(status, 201);
+    assert.equal(body.data.reference, `media:${body.data.id}`);
+    assert.equal(body.data.url, `${bucket.endpoint}/test-bucket/${hash.slice(0, 2)}/${hash}/original.jpg`);
+    assert.deepEqual(
+      [...bucket.objects.keys()].sort(),
+      ["original", "thumb", "w320", "w640"].map((name) => `${hash.slice(0, 2)}/${hash}/${name}.jpg`)
+    );
+
+    // The stored original has no EXIF left
+    const stored = bucket.objects.get(`${hash.slice(0, 2)}/${hash}/original.jpg`);
+    assert.equal(stored.contentType, "image/jpeg");
+    assert.equal((await sharp(stored.body).metadata()).exif, undefined);
+    assert.equal(stored.body.includes("TestCam"), false);
+  });
+
+  test("returns the existing media for identical bytes", async () => {
+    const bytes = await photo();
+
+    const first = await upload(bytes, "a.jpg", "image/jpeg");
+    const putsAfterFirst = bucket.requests.length;
+    const second = await upload(bytes, "b.jpg", "image/jpeg");
+
+    assert.equal(first.status, 201);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.data.id, first.body.data.id);
+    assert.equal(second.body.data.url, first.body.data.url);
+    // Nothing uploaded to the bucket the second time
+    assert.equal(bucket.requests.length, putsAfterFirst);
+  });
+
+  test("points <img> references at the stored files", async () => {
+    const { body } = await upload(await photo(), "a.jpg", "image/jpeg");
+    const { id, url, variants } = body.data;
+    const variantUrl = (name: string) => variants.find((v: any) => v.name === name).url;
+
+    const { content } = await renderContent("markdown", `![A lake](media:${id})`);
+
+    assert.ok(content.includes(`src="${url}"`));
+    assert.ok(
+      content.includes(`srcset="${variantUrl("w320")} 320w, ${variantUrl("w640")} 640w, ${url} 800w"`)
+    );
+    assert.ok(content.includes('width="800"'));
+    assert.ok(content.includes('height="600"'));
+    assert.ok(content.includes('loading="lazy"'));
+    assert.ok(content.includes('alt="A lake"'));
+    assert.equal(content.includes("thumb"), false);
+
+    const html = await renderContent("html", `<p><img src="media:${id}" alt="x"></p>`);
+    assert.ok(html.content.includes(`src="${url}"`));
+  });
+
+  test("drops references to unknown media", async () => {
+    const { content } = await renderContent(
+      "html",
+      `<img src="media:${crypto.randomUUID()}" alt="missing">`
+    );
+
+    assert.equal(content.includes("media:"), false);
+    assert.equal(content.includes("src="), false);
+  });
+});
@@ -0,0 +1,49 @@
+// Local disk storage: files live under a directory served by the API itself
+import fs from "fs/promises";
+import path from "path";
+import { MediaStorage } from "../types";
+
+/**
+ * Store media files in a local directory
+ */
+export class LocalDiskStorage implements MediaStorage {
+  readonly name = "local";
+
+  /**
+   * @param directory Where files are written
+   * @param publicUrl URL the directory is served under (see server.ts)
+   */
+  constructor(
+    readonly directory: string,
+    private publicUrl: string
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so a half-written file is never served
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  /**
+   * Map a key to a path, refusing keys that escape the directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid media key "${key}"`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,180 @@
+// S3-compatible storage (AWS S3, MinIO, R2, ...) using path-style requests
+// signed with AWS Signature Version 4
+import crypto from "crypto";
+import { MediaStorage } from "../types";
+
+/**
+ * Connection settings for an S3-compatible bucket
+ */
+export interface S3StorageOptions {
+  endpoint: string; // e.g. "https://s3.eu-west-1.amazonaws.com" or "http://localhost:9000"
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Public URL of the bucket (e.g. a CDN); defaults to <endpoint>/<bucket>
+  publicUrl?: string;
+}
+
+/**
+ * A request to sign
+ */
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // Signed as given; host and x-amz-* are added
+  payloadHash: string; // Hex SHA-256 of the body
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Percent-encode a path segment the way SigV4 expects (RFC 3986)
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * @returns The headers to send, including Authorization
+ */
+export function signS3Request(
+  request: SignableRequest,
+  credentials: { accessKeyId: string; secretAccessKey: string; region: string },
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    "x-amz-content-sha256": request.payloadHash,
+    "x-amz-date": amzDate,
+  };
+
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const canonicalHeaders = names
+    .map((name) => `${name}:${String(lowerCased[name]).trim().replace(/\s+/g, " ")}\n`)
+    .join("");
+  const signedHeaders = names.join(";");
+
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([key, value]) => `${encodeSegment(key)}=${encodeSegment(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region)
+  );
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Store media in an S3-compatible bucket
+ */
+export class S3Storage implements MediaStorage {
+  readonly name = "s3";
+
+  private endpoint: string;
+
+  constructor(private options: S3StorageOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, "");
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.request("PUT", key, body, {
+      "content-type": contentType,
+      "cache-control": "public, max-age=31536000, immutable",
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request("DELETE", key, Buffer.alloc(0), {});
+  }
+
+  url(key: string): string {
+    const base = (this.options.publicUrl || `${this.endpoint}/${this.options.bucket}`).replace(
+      /\/+$/,
+      ""
+    );
+    return `${base}/${key}`;
+  }
+
+  /**
+   * Send a signed request for an object
+   * @throws If the bucket answers with anything but a 2xx status
+   */
+  private async request(
+    method: string,
+    key: string,
+    body: Buffer,
+    headers: Record<string, string>
+  ) {
+    const url = new URL(
+      `${this.endpoint}/${encodeSegment(this.options.bucket)}/${key
+        .split("/")
+        .map(encodeSegment)
+        .join("/")}`
+    );
+
+    const signed = signS3Request(
+      { method, url, headers, payloadHash: sha256Hex(body) },
+      this.options
+    );
+    // fetch sets Host itself
+    delete signed.host;
+
+    const response = await fetch(url, {
+      method,
+      headers: signed,
+      body: method === "PUT" ? body : undefined,
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 500);
+      throw new Error(`S3 ${method} ${key} failed with HTTP ${response.status}: ${detail}`);
+    }
+  }
+}
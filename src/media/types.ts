@@ -0,0 +1,24 @@
+// Shared types for uploaded media
+
+/**
+ * Somewhere media files can be stored and served from (local disk, S3...)
+ * Keys are relative paths like "ab/abcdef.../w640.jpg"
+ */
+export interface MediaStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Public URL the stored file is served from
+  url(key: string): string;
+}
+
+/**
+ * A resized copy of an uploaded image
+ */
+export interface MediaVariant {
+  name: string; // "thumb", "w320", "w640", ...
+  key: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
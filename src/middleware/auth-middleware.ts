@@ -3,18 +3,32 @@
  */
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { withClient } from "../db";
+import { Permission, rolesWithPermission } from "../utils/roles";
 
-// Admin auth payload interface
-interface AuthPayload {
+// Admin auth payload interface (claims of tokens from utils/sessions.ts)
+export interface AuthPayload {
   id: string;
   username: string;
+  role: string;
+  sid: string;
 }
 
 /**
  * Middleware to verify JWT authentication tokens
- * Checks for token in Authorization header (Bearer token) or admin_token cookie
+ * Checks for token in Authorization header (Bearer token) or admin_token cookie,
+ * then confirms the admin still exists and isn't disabled and that the token's
+ * session hasn't been revoked (revoked sessions act as the token denylist).
+ * The role is taken from the database so role changes apply without waiting
+ * for a new token.
  */
-export const verifyJWT = (req: Request, res: Response, next: NextFunction) => {
+export const verifyJWT = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  let decoded: AuthPayload;
+
   try {
     // Get token from Authorization header or cookie
     const authHeader = req.headers.authorization;
@@ -30,16 +44,10 @@ export const verifyJWT = (req: Request, res: Response, next: NextFunction) => {
     }
 
     // Verify the token
-    const decoded = jwt.verify(
+    decoded = jwt.verify(
       token,
       process.env.JWT_SECRET || "secret"
     ) as AuthPayload;
-
-    // Add user info to request for use in route handlers
-    (req as any).admin = decoded;
-
-    // Continue to the protected route
-    next();
   } catch (error) {
     console.error("JWT verification error:", error);
     return res.status(401).json({
@@ -47,6 +55,56 @@ export const verifyJWT = (req: Request, res: Response, next: NextFunction) => {
       error: "Invalid or expired authentication token",
     });
   }
+
+  try {
+    // Reject tokens of admins that were disabled or deleted after login,
+    // and tokens whose session was logged out or revoked
+    const account = await withClient(async (client) => {
+      const result = await client.query(
+        `SELECT a.username, a.role, a.disabled_at,
+                s.id AS session_id, s.revoked_at, s.expires_at
+         FROM admins a
+         LEFT JOIN admin_sessions s ON s.id = $2 AND s.admin_id = a.id
+         WHERE a.id = $1`,
+        [decoded.id, decoded.sid || null]
+      );
+      return result.rows[0];
+    });
+
+    if (!account || account.disabled_at) {
+      return res.status(401).json({
+        success: false,
+        error: "Account is disabled or no longer exists",
+      });
+    }
+
+    if (
+      !account.session_id ||
+      account.revoked_at ||
+      account.expires_at < new Date()
+    ) {
+      return res.status(401).json({
+        success: false,
+        error: "Session has been revoked or expired",
+      });
+    }
+
+    // Add user info to request for use in route handlers
+    (req as any).admin = {
+      ...decoded,
+      username: account.username,
+      role: account.role,
+    };
+  } catch (error) {
+    console.error("Admin account lookup error:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Server error during authentication",
+    });
+  }
+
+  // Continue to the protected route
+  next();
 };
 
 /**
@@ -62,7 +120,7 @@ export const requireRoles = (allowedRoles: string[]) => {
 
         // Token is valid, get the user's role from the admin object
         const admin = (req as any).admin;
-        const role = admin.role || "admin"; // Default to 'admin' if no role specified
+        const role = admin.role || "viewer"; // Tokens issued before roles get least privilege
 
         // Check if user's role is in the allowed roles
         if (allowedRoles.includes(role)) {
@@ -80,4 +138,11 @@ export const requireRoles = (allowedRoles: string[]) => {
   };
 };
 
-export default { verifyJWT, requireRoles };
+/**
+ * Middleware factory that only admits admins whose role grants a permission
+ * @param permission Permission required to access the route (see utils/roles.ts)
+ */
+export const requirePermission = (permission: Permission) =>
+  requireRoles(rolesWithPermission(permission));
+
+export default { verifyJWT, requireRoles, requirePermission };
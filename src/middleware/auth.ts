@@ -12,6 +12,7 @@ const TOKEN_CACHE_TTL = 300;
 export interface AdminPayload {
   username: string;
   id: string;
+  role?: string;
 }
 
 /**
@@ -28,7 +29,7 @@ function getTokenCacheKey(token: string): string {
  * Checks session first, then falls back to cookie
  * Attaches the admin payload to the request object
  */
-export function verifyJWT(req: Request, res: Response, next: NextFunction) {
+export async function verifyJWT(req: Request, res: Response, next: NextFunction) {
   try {
     // First check if admin is authenticated in session
     if (req.session && (req.session as any).admin) {
@@ -68,7 +69,7 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
 
       // Check cache for the token
       const cacheKey = getTokenCacheKey(headerToken);
-      const cachedPayload = cache.get<AdminPayload>(cacheKey);
+      const cachedPayload = await cache.get<AdminPayload>(cacheKey);
 
       if (cachedPayload) {
         // Use cached payload
@@ -89,7 +90,7 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
       ) as AdminPayload;
 
       // Cache the token payload
-      cache.set(cacheKey, payload, TOKEN_CACHE_TTL);
+      await cache.set(cacheKey, payload, TOKEN_CACHE_TTL);
 
       // Store in session for future requests
       if (req.session) {
@@ -104,7 +105,7 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
 
     // Check cache for the cookie token
     const cacheKey = getTokenCacheKey(token);
-    const cachedPayload = cache.get<AdminPayload>(cacheKey);
+    const cachedPayload = await cache.get<AdminPayload>(cacheKey);
 
     if (cachedPayload) {
       // Use cached payload
@@ -122,7 +123,7 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
     const payload = jwt.verify(token, process.env.JWT_SECRET!) as AdminPayload;
 
     // Cache the verified token payload
-    cache.set(cacheKey, payload, TOKEN_CACHE_TTL);
+    await cache.set(cacheKey, payload, TOKEN_CACHE_TTL);
 
     // Store in session for future requests
     if (req.session) {
@@ -1,11 +1,82 @@
 // Rate limiting middleware
-import rateLimit from "express-rate-limit";
+import rateLimit, { MemoryStore, Options, Store } from "express-rate-limit";
+import { RedisStore, RedisReply } from "rate-limit-redis";
 import { Request } from "express";
+import { getRedis, isRedisReady } from "../utils/redis";
+
+/**
+ * Rate limit store shared by all cluster workers through Redis (REDIS_URL)
+ * While Redis is unreachable each worker counts in its own memory instead, so
+ * limits are looser until it's back rather than not enforced at all
+ */
+class SharedStore implements Store {
+  private memory = new MemoryStore();
+  private redis: RedisStore | null = null;
+  private options: Options;
+
+  /**
+   * @param name Distinguishes this limiter's counters in Redis
+   */
+  constructor(private name: string) {}
+
+  init(options: Options) {
+    this.options = options;
+    this.memory.init(options);
+  }
+
+  async increment(key: string) {
+    return this.run((store) => store.increment(key));
+  }
+
+  async decrement(key: string) {
+    return this.run((store) => store.decrement(key));
+  }
+
+  async resetKey(key: string) {
+    return this.run((store) => store.resetKey(key));
+  }
+
+  /**
+   * Run an operation against Redis, or the memory store if that fails
+   */
+  private async run<T>(operation: (store: Store) => T | Promise<T>): Promise<T> {
+    const redis = this.redisStore();
+    if (redis) {
+      try {
+        return await operation(redis);
+      } catch (error) {
+        console.error(`Rate limit store for ${this.name} failed, counting in memory:`, error);
+      }
+    }
+    return operation(this.memory);
+  }
+
+  /**
+   * The Redis store, created once Redis is first reachable
+   * (it loads its scripts on creation)
+   */
+  private redisStore(): RedisStore | null {
+    const client = getRedis();
+    if (!client || !isRedisReady()) return null;
+
+    if (!this.redis) {
+      this.redis = new RedisStore({
+        prefix: `rl:${this.name}:`,
+        sendCommand: (command: string, ...args: string[]) =>
+          client.call(command, ...args) as Promise<RedisReply>,
+      });
+      // Failed script loads are retried on use; don't let them go unhandled
+      this.redis.incrementScriptSha.catch(() => undefined);
+      this.redis.getScriptSha.catch(() => undefined);
+      this.redis.init(this.options);
+    }
+    return this.redis;
+  }
+}
 
 /**
  * Rate limiter for blog submission endpoint
  * Limits submissions to 3 per hour based on IP address
- * Optimized for performance with in-memory store
  */
 export const submitLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -46,7 +117,46 @@ export const submitLimiter = rateLimit({
         message: "Too many blog submissions. Please try again later.",
       },
     }),
-  // Use a more efficient in-memory store by default
-  // This avoids file system operations or external store dependencies
-  store: undefined, // Use default memory store
+  // Share counts across workers so the limit is per client, not per worker
+  store: new SharedStore("submit"),
+});
+
+/**
+ * Coarse rate limiter for the admin login endpoints
+ * Per-username backoff and lockout live in utils/login-throttle.ts;
+ * this only caps raw request volume from a single IP
+ */
+export const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 attempts per window
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true, // Only failed logins count
+  store: new SharedStore("login"),
+  handler: (req, res) =>
+    res.status(429).json({
+      success: false,
+      message: "Too many login attempts. Please try again later.",
+    }),
+});
+
+/**
+ * Rate limiter for image uploads
+ * Limits uploads to 30 per hour based on IP address
+ */
+export const mediaLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 30, // 30 uploads per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipFailedRequests: true, // Don't count rejected files
+  store: new SharedStore("media"),
+  handler: (req, res) =>
+    res.status(429).json({
+      success: false,
+      error: {
+        code: "TOO_MANY_REQUESTS",
+        message: "Too many uploads. Please try again later.",
+      },
+    }),
 });
@@ -1,12 +1,19 @@
 // Request validation middleware
-import { body, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import { ADMIN_ROLES } from "../utils/roles";
+import { AUDIT_ACTIONS } from "../utils/audit";
+import { JOB_STATUSES } from "../jobs/queue";
+import { WEBHOOK_EVENTS } from "../webhooks";
+import { CONTENT_FORMATS } from "../utils/markdown";
+import { STATS_BUCKETS } from "../utils/stats";
+import { BLOG_STATUSES } from "../utils/lifecycle";
 
 /**
- * Validation rules for blog submission
- * Ensures all required fields are present and properly formatted
+ * Validation rules for a submission's post fields, shared by the first
+ * submission and revisions made through an edit link
  */
-export const submitValidators = [
+const submissionContentRules = [
   // Title must be a string with length between 1 and 100
   body("title")
     .isString()
@@ -19,6 +26,12 @@ export const submitValidators = [
     .isLength({ min: 1, max: 10000 })
     .withMessage("Content is required and must be between 1-10000 characters"),
 
+  // Format of the content: "html" (default) or "markdown"
+  body("format")
+    .optional()
+    .isIn(CONTENT_FORMATS)
+    .withMessage(`Format must be one of: ${CONTENT_FORMATS.join(", ")}`),
+
   // Summary is optional but must be a string with max length 200
   body("summary")
     .optional()
@@ -26,6 +39,25 @@ export const submitValidators = [
     .isLength({ max: 200 })
     .withMessage("Summary must be a maximum of 200 characters"),
 
+  // Tags are optional: up to 5 proposed tag names of 1-30 characters each
+  body("tags")
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage("Tags must be an array of at most 5 entries"),
+  body("tags.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Each tag must be between 1-30 characters"),
+];
+
+/**
+ * Validation rules for blog submission
+ * Ensures all required fields are present and properly formatted
+ */
+export const submitValidators = [
+  ...submissionContentRules,
+
   // Author name must be a string with length between 1 and 50
   body("authorName")
     .isString()
@@ -39,6 +71,247 @@ export const submitValidators = [
     .withMessage("A valid email address is required"),
 ];
 
+/**
+ * Validation rules for revising a submission through its edit link
+ * The author is already known from the link, so only an optional new
+ * display name is accepted
+ */
+export const resubmitValidators = [
+  ...submissionContentRules,
+
+  body("authorName")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Author name must be between 1-50 characters"),
+];
+
+/**
+ * Validation rules for admin content edits
+ * All fields are optional; the route requires at least one of them
+ */
+export const contentUpdateValidators = [
+  // Title must be a string with length between 1 and 100
+  body("title")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Title must be between 1-100 characters"),
+
+  // Content must be a string with length between 1 and 10000
+  body("content")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 10000 })
+    .withMessage("Content must be between 1-10000 characters"),
+
+  // Format of the new content; requires content (defaults to the post's format)
+  body("format")
+    .optional()
+    .isIn(CONTENT_FORMATS)
+    .withMessage(`Format must be one of: ${CONTENT_FORMATS.join(", ")}`),
+
+  // Summary may be null (to clear it) or a string with max length 200
+  body("summary")
+    .optional({ values: "null" })
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage("Summary must be a maximum of 200 characters"),
+];
+
+/**
+ * Validation rules for moving a blog post to another status
+ * Rules that depend on the target status are checked by the route
+ */
+export const statusChangeValidators = [
+  body("status")
+    .isIn(BLOG_STATUSES)
+    .withMessage(`Status must be one of: ${BLOG_STATUSES.join(", ")}`),
+
+  // Notes for other admins, or the feedback shown to the author
+  body("adminNotes")
+    .optional({ values: "null" })
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage("Admin notes must be a string of at most 2000 characters"),
+
+  body("publishAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("publishAt must be an ISO 8601 date"),
+];
+
+/**
+ * Validation rules for a :revision route parameter
+ */
+export const revisionParamValidators = [
+  param("revision")
+    .isInt({ min: 1, max: 2147483647 })
+    .withMessage("Revision must be a positive integer"),
+];
+
+/**
+ * Validation rules for admin tag/category edits
+ * Both fields are optional; omitted fields are left unchanged
+ */
+export const taxonomyValidators = [
+  // Tags must be an array of at most 10 names of 1-30 characters each
+  body("tags")
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage("Tags must be an array of at most 10 entries"),
+  body("tags.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Each tag must be between 1-30 characters"),
+
+  // Categories must be an array of at most 5 names of 1-50 characters each
+  body("categories")
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage("Categories must be an array of at most 5 entries"),
+  body("categories.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Each category must be between 1-50 characters"),
+];
+
+/**
+ * Validation rule for a new password field
+ * @param field Body field holding the password
+ */
+const passwordRule = (field: string) =>
+  body(field)
+    .isString()
+    .isLength({ min: 12, max: 72 })
+    .withMessage("Password must be between 12-72 characters");
+
+/**
+ * Validation rules for creating an admin account
+ */
+export const adminCreateValidators = [
+  // Username must be 3-50 characters of letters, digits, dots, dashes or underscores
+  body("username")
+    .isString()
+    .matches(/^[A-Za-z0-9._-]{3,50}$/)
+    .withMessage(
+      "Username must be 3-50 characters of letters, digits, '.', '_' or '-'"
+    ),
+
+  passwordRule("password"),
+
+  // Role must be one of the known admin roles
+  body("role")
+    .isIn(ADMIN_ROLES as unknown as string[])
+    .withMessage(`Role must be one of: ${ADMIN_ROLES.join(", ")}`),
+];
+
+/**
+ * Validation rules for changing an admin's role
+ */
+export const adminRoleValidators = [
+  body("role")
+    .isIn(ADMIN_ROLES as unknown as string[])
+    .withMessage(`Role must be one of: ${ADMIN_ROLES.join(", ")}`),
+];
+
+/**
+ * Validation rules for a superadmin resetting another admin's password
+ */
+export const passwordResetValidators = [passwordRule("password")];
+
+/**
+ * Validation rules for an admin changing their own password
+ */
+export const passwordChangeValidators = [
+  body("currentPassword")
+    .isString()
+    .notEmpty()
+    .withMessage("Current password is required"),
+  passwordRule("newPassword"),
+];
+
+/**
+ * Validation rules for audit log filters
+ */
+export const auditQueryValidators = [
+  query("adminId").optional().isUUID().withMessage("adminId must be a UUID"),
+  query("targetId").optional().isUUID().withMessage("targetId must be a UUID"),
+  query("action")
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`Action must be one of: ${AUDIT_ACTIONS.join(", ")}`),
+  query("targetType")
+    .optional()
+    .isIn(["blog", "admin", "webhook"])
+    .withMessage('targetType must be "blog", "admin" or "webhook"'),
+  query(["from", "to"])
+    .optional()
+    .isISO8601()
+    .withMessage("from and to must be ISO 8601 dates"),
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage('Format must be "json" or "csv"'),
+];
+
+/**
+ * Validation rules for the dashboard statistics range
+ */
+export const statsQueryValidators = [
+  query(["from", "to"])
+    .optional()
+    .isISO8601()
+    .withMessage("from and to must be ISO 8601 dates"),
+  query("bucket")
+    .optional()
+    .isIn(STATS_BUCKETS)
+    .withMessage(`Bucket must be one of: ${STATS_BUCKETS.join(", ")}`),
+];
+
+/**
+ * Validation rules for background job filters
+ */
+export const jobQueryValidators = [
+  query("status")
+    .optional()
+    .isIn(JOB_STATUSES)
+    .withMessage(`Status must be one of: ${JOB_STATUSES.join(", ")}`),
+  query("type")
+    .optional()
+    .isString()
+    .isLength({ max: 60 })
+    .withMessage("Type must be at most 60 characters"),
+];
+
+/**
+ * Validation rules for creating (all fields) or updating (optional fields) a webhook
+ */
+export function webhookValidators(partial: boolean) {
+  const field = (name: string) => (partial ? body(name).optional() : body(name));
+
+  return [
+    field("url")
+      .isURL({ protocols: ["http", "https"], require_protocol: true, require_tld: false })
+      .withMessage("URL must be an http(s) URL"),
+    field("events")
+      .isArray({ min: 1 })
+      .withMessage("Events must be a non-empty array"),
+    body("events.*")
+      .isIn(["*", ...WEBHOOK_EVENTS])
+      .withMessage(`Each event must be "*" or one of: ${WEBHOOK_EVENTS.join(", ")}`),
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage("Description must be at most 200 characters"),
+    body("active").optional().isBoolean().withMessage("Active must be a boolean"),
+  ];
+}
+
 /**
  * Middleware to check validation results
  * Returns a 400 error with validation errors if any
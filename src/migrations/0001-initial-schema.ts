@@ -0,0 +1,34 @@
+/**
+ * Initial schema: blogs and admins tables
+ * Uses IF NOT EXISTS so databases created before the migration ledger are adopted as-is
+ */
+export const up = `
+  CREATE TABLE IF NOT EXISTS blogs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title VARCHAR(100) NOT NULL,
+    content TEXT NOT NULL,
+    summary VARCHAR(200),
+    author_name VARCHAR(50) NOT NULL,
+    author_email VARCHAR(100) NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    views INTEGER NOT NULL DEFAULT 0,
+    submission_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+    approval_date TIMESTAMPTZ,
+    last_modified TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ip_address TEXT NOT NULL,
+    admin_notes TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS admins (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    username VARCHAR(50) NOT NULL UNIQUE,
+    password TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_login TIMESTAMPTZ
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS admins;
+  DROP TABLE IF EXISTS blogs;
+`;
@@ -0,0 +1,13 @@
+/**
+ * Add admin_ip_address column to blogs table
+ * Stores the submitter's original IP, only exposed through admin routes
+ */
+export const up = `
+  ALTER TABLE blogs
+  ADD COLUMN IF NOT EXISTS admin_ip_address TEXT;
+`;
+
+export const down = `
+  ALTER TABLE blogs
+  DROP COLUMN IF EXISTS admin_ip_address;
+`;
@@ -0,0 +1,39 @@
+/**
+ * Tags and categories for blog posts, each with a many-to-many join table
+ */
+export const up = `
+  CREATE TABLE tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(30) NOT NULL,
+    slug VARCHAR(40) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE categories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(50) NOT NULL,
+    slug VARCHAR(60) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE blog_tags (
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (blog_id, tag_id)
+  );
+  CREATE INDEX blog_tags_tag_id_idx ON blog_tags (tag_id);
+
+  CREATE TABLE blog_categories (
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    PRIMARY KEY (blog_id, category_id)
+  );
+  CREATE INDEX blog_categories_category_id_idx ON blog_categories (category_id);
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS blog_categories;
+  DROP TABLE IF EXISTS blog_tags;
+  DROP TABLE IF EXISTS categories;
+  DROP TABLE IF EXISTS tags;
+`;
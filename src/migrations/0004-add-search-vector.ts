@@ -0,0 +1,23 @@
+/**
+ * Full-text search over blog title, summary and content
+ * Title matches rank above summary matches, which rank above content matches;
+ * HTML tags are stripped from content before indexing
+ */
+export const up = `
+  ALTER TABLE blogs
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+    setweight(
+      to_tsvector('english', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')),
+      'C'
+    )
+  ) STORED;
+
+  CREATE INDEX blogs_search_vector_idx ON blogs USING GIN (search_vector);
+`;
+
+export const down = `
+  DROP INDEX IF EXISTS blogs_search_vector_idx;
+  ALTER TABLE blogs DROP COLUMN IF EXISTS search_vector;
+`;
@@ -0,0 +1,29 @@
+/**
+ * Human-readable slugs for blog posts
+ * Existing posts get a slug derived from their title plus an ID prefix;
+ * slugs replaced by a title edit are kept in blog_slug_history for redirects
+ */
+export const up = `
+  ALTER TABLE blogs ADD COLUMN slug VARCHAR(120);
+
+  UPDATE blogs
+  SET slug = coalesce(
+    nullif(trim(both '-' from left(regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'), 80)), ''),
+    'post'
+  ) || '-' || left(id::text, 8);
+
+  ALTER TABLE blogs ALTER COLUMN slug SET NOT NULL;
+  ALTER TABLE blogs ADD CONSTRAINT blogs_slug_unique UNIQUE (slug);
+
+  CREATE TABLE blog_slug_history (
+    slug VARCHAR(120) PRIMARY KEY,
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+  CREATE INDEX blog_slug_history_blog_id_idx ON blog_slug_history (blog_id);
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS blog_slug_history;
+  ALTER TABLE blogs DROP COLUMN IF EXISTS slug;
+`;
@@ -0,0 +1,25 @@
+/**
+ * Revision history for blog title, summary and content
+ * Every existing post gets its current state recorded as revision 1
+ */
+export const up = `
+  CREATE TABLE blog_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    summary VARCHAR(200),
+    content TEXT NOT NULL,
+    admin_id UUID REFERENCES admins(id) ON DELETE SET NULL,
+    restored_from UUID REFERENCES blog_revisions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (blog_id, revision_number)
+  );
+
+  INSERT INTO blog_revisions (blog_id, revision_number, title, summary, content, created_at)
+  SELECT id, 1, title, summary, content, last_modified FROM blogs;
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS blog_revisions;
+`;
@@ -0,0 +1,16 @@
+/**
+ * Admin roles for role-based access control
+ * Admins that existed before roles keep full access as superadmins;
+ * new admins default to the least-privileged viewer role
+ */
+export const up = `
+  ALTER TABLE admins
+  ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'viewer'
+  CONSTRAINT admins_role_check CHECK (role IN ('superadmin', 'editor', 'moderator', 'viewer'));
+
+  UPDATE admins SET role = 'superadmin';
+`;
+
+export const down = `
+  ALTER TABLE admins DROP COLUMN IF EXISTS role;
+`;
@@ -0,0 +1,10 @@
+/**
+ * Allow admin accounts to be disabled without deleting them
+ */
+export const up = `
+  ALTER TABLE admins ADD COLUMN disabled_at TIMESTAMPTZ;
+`;
+
+export const down = `
+  ALTER TABLE admins DROP COLUMN IF EXISTS disabled_at;
+`;
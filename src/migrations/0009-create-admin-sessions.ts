@@ -0,0 +1,34 @@
+/**
+ * Server-side admin sessions with rotating refresh tokens
+ * Each session is one refresh token family; revoking the session revokes
+ * every access and refresh token issued for it
+ */
+export const up = `
+  CREATE TABLE admin_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_used_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    revoked_reason VARCHAR(30),
+    ip_address TEXT,
+    user_agent TEXT
+  );
+  CREATE INDEX admin_sessions_admin_id_idx ON admin_sessions (admin_id);
+
+  CREATE TABLE admin_refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES admin_sessions(id) ON DELETE CASCADE,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ
+  );
+  CREATE INDEX admin_refresh_tokens_session_id_idx ON admin_refresh_tokens (session_id);
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS admin_refresh_tokens;
+  DROP TABLE IF EXISTS admin_sessions;
+`;
@@ -0,0 +1,28 @@
+/**
+ * Optional TOTP two-factor authentication for admins
+ * totp_secret is set during enrollment; 2FA is only enforced once
+ * totp_enabled_at is set. totp_last_counter blocks code replays.
+ */
+export const up = `
+  ALTER TABLE admins
+  ADD COLUMN totp_secret TEXT,
+  ADD COLUMN totp_enabled_at TIMESTAMPTZ,
+  ADD COLUMN totp_last_counter BIGINT;
+
+  CREATE TABLE admin_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+    code_hash CHAR(64) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    used_at TIMESTAMPTZ,
+    UNIQUE (admin_id, code_hash)
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS admin_recovery_codes;
+  ALTER TABLE admins
+  DROP COLUMN IF EXISTS totp_last_counter,
+  DROP COLUMN IF EXISTS totp_enabled_at,
+  DROP COLUMN IF EXISTS totp_secret;
+`;
@@ -0,0 +1,24 @@
+/**
+ * Track failed admin logins for backoff and account lockout
+ * login_attempts is keyed by "ip:<address>" or "user:<username>" so unknown
+ * usernames are throttled exactly like real ones
+ */
+export const up = `
+  ALTER TABLE admins
+    ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN locked_until TIMESTAMPTZ;
+
+  CREATE TABLE login_attempts (
+    key VARCHAR(150) PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    blocked_until TIMESTAMPTZ
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS login_attempts;
+  ALTER TABLE admins
+    DROP COLUMN IF EXISTS failed_login_attempts,
+    DROP COLUMN IF EXISTS locked_until;
+`;
@@ -0,0 +1,27 @@
+/**
+ * Audit trail of admin actions
+ * Admin and target IDs are kept without foreign keys so entries outlive
+ * deleted admins and posts; the username is copied for the same reason
+ */
+export const up = `
+  CREATE TABLE admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id UUID,
+    admin_username VARCHAR(50),
+    action VARCHAR(40) NOT NULL,
+    target_type VARCHAR(20) NOT NULL,
+    target_id UUID,
+    before JSONB,
+    after JSONB,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+  CREATE INDEX admin_audit_log_created_at_idx ON admin_audit_log (created_at DESC);
+  CREATE INDEX admin_audit_log_admin_id_idx ON admin_audit_log (admin_id, created_at DESC);
+  CREATE INDEX admin_audit_log_target_idx ON admin_audit_log (target_type, target_id, created_at DESC);
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS admin_audit_log;
+`;
@@ -0,0 +1,17 @@
+/**
+ * Soft delete for blog posts: deleted posts go to the trash and are purged
+ * after the retention period (see jobs/purge-trash.ts)
+ */
+export const up = `
+  ALTER TABLE blogs
+    ADD COLUMN deleted_at TIMESTAMPTZ,
+    ADD COLUMN deleted_by UUID REFERENCES admins(id) ON DELETE SET NULL;
+  CREATE INDEX blogs_deleted_at_idx ON blogs (deleted_at) WHERE deleted_at IS NOT NULL;
+`;
+
+export const down = `
+  DROP INDEX IF EXISTS blogs_deleted_at_idx;
+  ALTER TABLE blogs
+    DROP COLUMN IF EXISTS deleted_at,
+    DROP COLUMN IF EXISTS deleted_by;
+`;
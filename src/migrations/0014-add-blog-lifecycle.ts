@@ -0,0 +1,38 @@
+/**
+ * Explicit post lifecycle (see utils/lifecycle.ts)
+ * Posts that were "approved" were publicly visible, so they become "published"
+ */
+export const up = `
+  ALTER TABLE blogs ALTER COLUMN status TYPE VARCHAR(20);
+
+  UPDATE blogs SET status = 'published' WHERE status = 'approved';
+
+  ALTER TABLE blogs
+    ADD CONSTRAINT blogs_status_check CHECK (status IN (
+      'pending', 'changes_requested', 'approved', 'scheduled',
+      'published', 'archived', 'rejected'
+    )),
+    ADD COLUMN publish_at TIMESTAMPTZ,
+    ADD COLUMN published_at TIMESTAMPTZ;
+
+  UPDATE blogs SET published_at = coalesce(approval_date, submission_date)
+  WHERE status = 'published';
+
+  CREATE INDEX blogs_scheduled_publish_at_idx ON blogs (publish_at)
+  WHERE status = 'scheduled';
+`;
+
+export const down = `
+  DROP INDEX IF EXISTS blogs_scheduled_publish_at_idx;
+  ALTER TABLE blogs
+    DROP CONSTRAINT IF EXISTS blogs_status_check,
+    DROP COLUMN IF EXISTS publish_at,
+    DROP COLUMN IF EXISTS published_at;
+
+  -- Only published posts were visible under the old statuses
+  UPDATE blogs SET status = 'pending'
+  WHERE status IN ('approved', 'scheduled', 'changes_requested');
+  UPDATE blogs SET status = 'rejected' WHERE status = 'archived';
+  UPDATE blogs SET status = 'approved' WHERE status = 'published';
+  ALTER TABLE blogs ALTER COLUMN status TYPE VARCHAR(10);
+`;
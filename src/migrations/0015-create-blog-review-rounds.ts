@@ -0,0 +1,22 @@
+/**
+ * Review rounds: each time a moderator requests changes, a round records the
+ * feedback and, once the author resubmits, the revision they produced
+ */
+export const up = `
+  CREATE TABLE blog_review_rounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    round_number INTEGER NOT NULL,
+    feedback TEXT NOT NULL,
+    requested_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+    requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    resubmitted_at TIMESTAMPTZ,
+    revision_id UUID REFERENCES blog_revisions(id) ON DELETE SET NULL,
+    UNIQUE (blog_id, round_number)
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS blog_review_rounds;
+`;
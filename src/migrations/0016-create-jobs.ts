@@ -0,0 +1,33 @@
+/**
+ * Durable background jobs (see jobs/queue.ts)
+ * Workers claim due jobs with FOR UPDATE SKIP LOCKED, so any number of
+ * processes can poll the same table safely
+ */
+export const up = `
+  CREATE TABLE jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(60) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+      CONSTRAINT jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    locked_at TIMESTAMPTZ,
+    locked_by TEXT,
+    last_error TEXT,
+    dedupe_key VARCHAR(120),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    completed_at TIMESTAMPTZ
+  );
+  CREATE INDEX jobs_due_idx ON jobs (run_at) WHERE status = 'queued';
+  CREATE INDEX jobs_status_idx ON jobs (status, updated_at DESC);
+  -- At most one queued or running job per dedupe key (used for recurring jobs)
+  CREATE UNIQUE INDEX jobs_dedupe_key_idx ON jobs (dedupe_key)
+    WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS jobs;
+`;
@@ -0,0 +1,22 @@
+/**
+ * Content formats: posts can be written in HTML or Markdown
+ * content keeps the sanitized HTML that is served; source keeps the Markdown
+ * it was rendered from (null for HTML posts). Revisions record both so a
+ * restore brings back the editable source too
+ */
+export const up = `
+  ALTER TABLE blogs
+    ADD COLUMN format VARCHAR(10) NOT NULL DEFAULT 'html'
+      CONSTRAINT blogs_format_check CHECK (format IN ('html', 'markdown')),
+    ADD COLUMN source TEXT;
+
+  ALTER TABLE blog_revisions
+    ADD COLUMN format VARCHAR(10) NOT NULL DEFAULT 'html'
+      CONSTRAINT blog_revisions_format_check CHECK (format IN ('html', 'markdown')),
+    ADD COLUMN source TEXT;
+`;
+
+export const down = `
+  ALTER TABLE blog_revisions DROP COLUMN IF EXISTS source, DROP COLUMN IF EXISTS format;
+  ALTER TABLE blogs DROP COLUMN IF EXISTS source, DROP COLUMN IF EXISTS format;
+`;
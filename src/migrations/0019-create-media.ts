@@ -0,0 +1,24 @@
+/**
+ * Uploaded media (see media/index.ts)
+ * One row per distinct file, keyed by the SHA-256 of the uploaded bytes so
+ * re-uploading the same image returns the existing asset
+ */
+export const up = `
+  CREATE TABLE media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_hash CHAR(64) NOT NULL UNIQUE,
+    mime_type VARCHAR(50) NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    original_name VARCHAR(255),
+    storage_key TEXT NOT NULL,
+    variants JSONB NOT NULL DEFAULT '[]',
+    ip_address TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS media;
+`;
@@ -0,0 +1,21 @@
+/**
+ * Daily view counts per post (see utils/views.ts)
+ * One row per post, day and referring site; referrer is '' for direct visits.
+ * Buffered views are flushed into this table and blogs.views together, so
+ * from here on the two move in step.
+ */
+export const up = `
+  CREATE TABLE blog_views_daily (
+    blog_id UUID NOT NULL REFERENCES blogs(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    referrer VARCHAR(255) NOT NULL DEFAULT '',
+    views INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (blog_id, day, referrer)
+  );
+
+  CREATE INDEX blog_views_daily_day_idx ON blog_views_daily (day);
+`;
+
+export const down = `
+  DROP TABLE IF EXISTS blog_views_daily;
+`;
@@ -0,0 +1,13 @@
+/**
+ * Make admin usernames unique regardless of case
+ * Login throttling matches accounts on lower(username), so "Admin" and
+ * "admin" must not be two accounts. Fails if such duplicates already exist;
+ * rename one of them first.
+ */
+export const up = `
+  CREATE UNIQUE INDEX admins_username_lower_idx ON admins (lower(username));
+`;
+
+export const down = `
+  DROP INDEX IF EXISTS admins_username_lower_idx;
+`;
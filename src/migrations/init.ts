@@ -1,13 +1,13 @@
 import "dotenv/config";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
-import { migrate } from "drizzle-orm/node-postgres/migrator";
-import { admins, blogs } from "../schema";
 import { sql } from "drizzle-orm";
 import * as bcrypt from "bcrypt";
+import { migrateUp } from "./runner";
 
 /**
- * Main migration function to create tables and seed initial data
+ * Main migration function to apply pending migrations and seed initial data
+ * Safe to run on every boot: only unapplied migrations are executed
  */
 async function runMigration() {
   // Create a PostgreSQL connection pool
@@ -21,37 +21,9 @@ async function runMigration() {
   try {
     console.log("🔄 Starting database migration and seeding...");
 
-    // Create tables if they don't exist
-    console.log("📊 Creating tables...");
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS blogs (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        title VARCHAR(100) NOT NULL,
-        content TEXT NOT NULL,
-        summary VARCHAR(200),
-        author_name VARCHAR(50) NOT NULL,
-        author_email VARCHAR(100) NOT NULL,
-        status VARCHAR(10) NOT NULL DEFAULT 'pending',
-        views INTEGER NOT NULL DEFAULT 0,
-        submission_date TIMESTAMPTZ NOT NULL DEFAULT now(),
-        approval_date TIMESTAMPTZ,
-        last_modified TIMESTAMPTZ NOT NULL DEFAULT now(),
-        ip_address TEXT NOT NULL,
-        admin_notes TEXT
-      );
-      
-      -- Drop the old admins table if it exists (to remove email field)
-      DROP TABLE IF EXISTS admins;
-      
-      -- Create new admins table without email field
-      CREATE TABLE admins (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        username VARCHAR(50) NOT NULL UNIQUE,
-        password TEXT NOT NULL,
-        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
-        last_login TIMESTAMPTZ
-      );
-    `);
+    // Apply pending schema migrations (serialized across workers by an advisory lock)
+    console.log("📊 Applying pending migrations...");
+    await migrateUp(pool);
 
     // Get admin credentials from env vars
     const adminUsername = process.env.ADMIN_USERNAME || "admin";
@@ -61,18 +33,19 @@ async function runMigration() {
     const saltRounds = 10;
     const hashedPassword = await bcrypt.hash(adminPassword, saltRounds);
 
-    // Create or update admin user with a single upsert operation
-    console.log("👤 Upserting admin user...");
+    // Create the bootstrap admin if it doesn't exist yet
+    // An existing account is left alone so passwords changed through the
+    // admin user API aren't reset on every boot
+    console.log("👤 Ensuring bootstrap admin user exists...");
 
-    // Use raw SQL for the upsert operation
+    // The bootstrap admin is a superadmin so it can manage other admins
     await db.execute(sql`
-      INSERT INTO admins (username, password)
-      VALUES (${adminUsername}, ${hashedPassword})
-      ON CONFLICT (username) 
-      DO UPDATE SET password = ${hashedPassword}
+      INSERT INTO admins (username, password, role)
+      VALUES (${adminUsername}, ${hashedPassword}, 'superadmin')
+      ON CONFLICT (username) DO NOTHING
     `);
 
-    console.log("✅ Admin user upserted successfully");
+    console.log("✅ Bootstrap admin user ready");
 
     console.log("✅ Database migration and seeding completed successfully");
   } catch (error) {
@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { Pool } from "pg";
+import { loadMigrations, migrateDown, migrateUp, Migration } from "./runner";
+
+/**
+ * A ledger row as the runner reads it
+ */
+interface LedgerRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Stand-in for a pg Pool that keeps schema_migrations in memory and records
+ * every statement it's sent
+ * BEGIN/ROLLBACK snapshot and restore the ledger, like a transaction would
+ */
+class LedgerPool {
+  ledger: LedgerRow[] = [];
+  ledgerExists = false;
+  statements: string[] = [];
+  // Statements containing this text fail
+  failOn: string | null = null;
+
+  private snapshot: LedgerRow[] = [];
+
+  private client = {
+    query: async (text: string, params: unknown[] = []) => {
+      const statement = text.trim();
+      this.statements.push(statement);
+
+      if (this.failOn && statement.includes(this.failOn)) {
+        throw new Error("syntax error at or near \"oops\"");
+      }
+      if (statement.startsWith("SELECT pg_advisory")) return { rows: [] };
+      if (statement.includes("to_regclass")) return { rows: [{ exists: this.ledgerExists }] };
+      if (statement.startsWith("SELECT version")) {
+        return { rows: [...this.ledger].sort((a, b) => a.version - b.version) };
+      }
+      if (statement.startsWith("CREATE TABLE IF NOT EXISTS schema_migrations")) {
+        this.ledgerExists = true;
+      } else if (statement === "BEGIN") {
+        this.snapshot = [...this.ledger];
+      } else if (statement === "ROLLBACK") {
+        this.ledger = this.snapshot;
+      } else if (statement.startsWith("INSERT INTO schema_migrations")) {
+        const [version, name, checksum] = params as [number, string, string];
+        this.ledger.push({ version, name, checksum, applied_at: new Date() });
+      } else if (statement.startsWith("DELETE FROM schema_migrations")) {
+        this.ledger = this.ledger.filter((row) => row.version !== params[0]);
+      }
+      return { rows: [] };
+    },
+    release: () => {},
+  };
+
+  async connect() {
+    return this.client;
+  }
+
+  /**
+   * Record migrations as applied, as a previous run would have
+   */
+  markApplied(migrations: Migration[]) {
+    this.ledgerExists = true;
+    for (const { version, name, checksum } of migrations) {
+      this.ledger.push({ version, name, checksum, applied_at: new Date() });
+    }
+  }
+
+  get asPool(): Pool {
+    return this as unknown as Pool;
+  }
+}
+
+const migrations = loadMigrations();
+
+describe("loadMigrations", () => {
+  let dir: string;
+
+  const write = (file: string, up = "SELECT 1;", down = "SELECT 2;") =>
+    fs.writeFileSync(
+      path.join(dir, file),
+      `exports.up = ${JSON.stringify(up)};\nexports.down = ${JSON.stringify(down)};\n`
+    );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("loads numbered files in version order and skips everything else", () => {
+    write("0010-add-index.js", "CREATE INDEX x ON t (a);");
+    write("0002-create-table.js", "CREATE TABLE t (a int);", "DROP TABLE t;");
+    write("helpers.js");
+    write("3-no-padding.js");
+
+    const loaded = loadMigrations(dir);
+
+    assert.deepEqual(
+      loaded.map((m) => [m.version, m.name]),
+      [
+        [2, "create-table"],
+        [10, "add-index"],
+      ]
+    );
+    assert.equal(loaded[0].down, "DROP TABLE t;");
+    assert.equal(
+      loaded[0].checksum,
+      crypto.createHash("sha256").update("CREATE TABLE t (a int);").digest("hex")
+    );
+  });
+
+  test("rejects two files with the same version", () => {
+    write("0001-first.js");
+    write("0001-second.js");
+
+    assert.throws(() => loadMigrations(dir), /Duplicate migration version 1: first, second/);
+  });
+
+  test("rejects files without up and down SQL", () => {
+    fs.writeFileSync(path.join(dir, "0001-empty.js"), "exports.up = 'SELECT 1;';\n");
+
+    assert.throws(() => loadMigrations(dir), /0001-empty\.js must export "up" and "down"/);
+  });
+
+  test("the app's migrations are numbered without gaps", () => {
+    assert.ok(migrations.length > 0);
+    assert.deepEqual(
+      migrations.map((m) => m.version),
+      migrations.map((_, i) => i + 1)
+    );
+  });
+});
+
+describe("migrateUp", () => {
+  let pool: LedgerPool;
+  let logs: string[];
+  const log = (message: string) => logs.push(message);
+
+  beforeEach(() => {
+    pool = new LedgerPool();
+    logs = [];
+  });
+
+  test("applies pending migrations in order, each in a transaction with its ledger entry", async () => {
+    const applied = await migrateUp(pool.asPool, { log });
+
+    assert.deepEqual(applied.map((m) => m.version), migrations.map((m) => m.version));
+    assert.deepEqual(
+      pool.ledger.map((row) => [row.version, row.checksum]),
+      migrations.map((m) => [m.version, m.checksum])
+    );
+
+    // BEGIN, the migration, its ledger row, COMMIT - one migration after the other
+    const work = pool.statements.filter((s) => !s.startsWith("SELECT"));
+    assert.ok(work[0].startsWith("CREATE TABLE IF NOT EXISTS schema_migrations"));
+    migrations.forEach((migration, i) => {
+      const [begin, up, insert, commit] = work.slice(1 + i * 4, 5 + i * 4);
+      assert.equal(begin, "BEGIN");
+      assert.equal(up, migration.up.trim());
+      assert.ok(insert.startsWith("INSERT INTO schema_migrations"));
+      assert.equal(commit, "COMMIT");
+    });
+    assert.equal(logs[logs.length - 1], `✅ Applied ${migrations.length} migration(s)`);
+  });
+
+  test("only applies migrations missing from the ledger", async () => {
+    pool.markApplied(migrations.slice(0, -1));
+
+    const applied = await migrateUp(pool.asPool, { log });
+
+    assert.deepEqual(applied, migrations.slice(-1));
+    assert.deepEqual(await migrateUp(pool.asPool, { log }), []);
+    assert.equal(logs[logs.length - 1], "✅ Database schema is up to date");
+  });
+
+  test("warns about migrations changed or removed after they were applied", async () => {
+    pool.markApplied(migrations);
+    pool.ledger[0].checksum = "0".repeat(64);
+    pool.ledger.push({ version: 9999, name: "gone", checksum: "x", applied_at: new Date() });
+
+    await migrateUp(pool.asPool, { log });
+
+    assert.deepEqual(logs, [
+      `⚠️ Migration ${migrations[0].version} (${migrations[0].name}) was modified after it was applied`,
+      "⚠️ Applied migration 9999 (gone) has no file",
+      "✅ Database schema is up to date",
+    ]);
+  });
+
+  test("dry run prints the SQL without running anything", async () => {
+    const planned = await migrateUp(pool.asPool, { dryRun: true, log });
+
+    assert.deepEqual(planned.map((m) => m.version), migrations.map((m) => m.version));
+    assert.ok(logs[0].startsWith("-- schema_migrations ledger"));
+    assert.equal(
+      logs[1],
+      `-- ${migrations[0].version}-${migrations[0].name} (up)\n${migrations[0].up.trim()}\n`
+    );
+    assert.equal(pool.ledgerExists, false);
+    assert.deepEqual(pool.statements.filter((s) => !s.startsWith("SELECT")), []);
+  });
+
+  test("stops at a failing migration and keeps the ones before it", async () => {
+    pool.failOn = migrations[1].up.trim();
+
+    await assert.rejects(
+      migrateUp(pool.asPool, { log }),
+      new RegExp(`Migration ${migrations[1].version}-${migrations[1].name} failed: syntax error`)
+    );
+    assert.deepEqual(pool.ledger.map((row) => row.version), [migrations[0].version]);
+    // Rolled back, then the lock released
+    assert.deepEqual(pool.statements.slice(-2), ["ROLLBACK", "SELECT pg_advisory_unlock($1)"]);
+  });
+});
+
+describe("migrateDown", () => {
+  let pool: LedgerPool;
+  let logs: string[];
+  const log = (message: string) => logs.push(message);
+
+  beforeEach(() => {
+    pool = new LedgerPool();
+    pool.markApplied(migrations);
+    logs = [];
+  });
+
+  test("rolls back the latest migrations, newest first", async () => {
+    const rolledBack = await migrateDown(pool.asPool, { steps: 2, log });
+
+    const [secondLast, last] = migrations.slice(-2);
+    assert.deepEqual(rolledBack, [last, secondLast]);
+    assert.ok(pool.statements.includes(last.down.trim()));
+    assert.ok(
+      pool.statements.indexOf(last.down.trim()) < pool.statements.indexOf(secondLast.down.trim())
+    );
+    assert.deepEqual(
+      pool.ledger.map((row) => row.version),
+      migrations.slice(0, -2).map((m) => m.version)
+    );
+  });
+
+  test("dry run prints the down SQL and keeps the ledger", async () => {
+    const last = migrations[migrations.length - 1];
+
+    assert.deepEqual(await migrateDown(pool.asPool, { dryRun: true, log }), [last]);
+    assert.deepEqual(logs, [`-- ${last.version}-${last.name} (down)\n${last.down.trim()}\n`]);
+    assert.equal(pool.ledger.length, migrations.length);
+  });
+
+  test("refuses to roll back a migration whose file is gone", async () => {
+    pool.ledger.push({ version: 9999, name: "gone", checksum: "x", applied_at: new Date() });
+
+    await assert.rejects(
+      migrateDown(pool.asPool, { log }),
+      /Cannot roll back migration 9999 \(gone\): file not found/
+    );
+    assert.equal(pool.ledger.length, migrations.length + 1);
+  });
+});
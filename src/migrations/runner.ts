@@ -0,0 +1,295 @@
+// Versioned schema migration runner
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Pool, PoolClient } from "pg";
+
+// Arbitrary application-wide key for the migration advisory lock
+const MIGRATION_LOCK_KEY = 72150001;
+
+// Migration files look like "0001-initial-schema.ts" (or .js once compiled)
+const MIGRATION_FILE_PATTERN = /^(\d{4})-([a-z0-9-]+)\.(ts|js)$/;
+
+const LEDGER_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+`;
+
+/**
+ * A single migration loaded from a numbered file in this directory
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+/**
+ * A row from the schema_migrations ledger
+ */
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Options shared by the up/down commands
+ */
+export interface MigrateOptions {
+  // Print the SQL that would run instead of executing it
+  dryRun?: boolean;
+  // Number of migrations to roll back (down only, default 1)
+  steps?: number;
+  // Logger used for progress output
+  log?: (message: string) => void;
+}
+
+/**
+ * Load every numbered migration file from the migrations directory, in order
+ */
+export function loadMigrations(dir: string = __dirname): Migration[] {
+  const migrations: Migration[] = [];
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const mod = require(path.join(dir, file));
+    if (typeof mod.up !== "string" || typeof mod.down !== "string") {
+      throw new Error(`Migration ${file} must export "up" and "down" SQL strings`);
+    }
+
+    migrations.push({
+      version: Number(match[1]),
+      name: match[2],
+      up: mod.up,
+      down: mod.down,
+      checksum: crypto.createHash("sha256").update(mod.up).digest("hex"),
+    });
+  }
+
+  // Guard against two files sharing a version number
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(
+        `Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].name}, ${migrations[i].name}`
+      );
+    }
+  }
+
+  return migrations;
+}
+
+/**
+ * Read the ledger, returning an empty list if it has not been created yet
+ */
+async function getAppliedMigrations(
+  client: PoolClient
+): Promise<AppliedMigration[]> {
+  const exists = await client.query(
+    "SELECT to_regclass('schema_migrations') IS NOT NULL AS exists"
+  );
+  if (!exists.rows[0].exists) return [];
+
+  const result = await client.query(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return result.rows;
+}
+
+/**
+ * Run a callback while holding the migration advisory lock
+ * Clustered workers booting at the same time wait here instead of racing
+ */
+async function withMigrationLock<T>(
+  pool: Pool,
+  callback: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      return await callback(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Warn about ledger entries that no longer match the files on disk
+ */
+function checkDrift(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+  log: (message: string) => void
+) {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+
+  for (const row of applied) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      log(`⚠️ Applied migration ${row.version} (${row.name}) has no file`);
+    } else if (migration.checksum !== row.checksum) {
+      log(
+        `⚠️ Migration ${row.version} (${row.name}) was modified after it was applied`
+      );
+    }
+  }
+}
+
+/**
+ * Apply all pending migrations in version order
+ * Each migration runs in its own transaction together with its ledger entry
+ * @returns The migrations that were applied (or would be, in dry-run mode)
+ */
+export async function migrateUp(
+  pool: Pool,
+  options: MigrateOptions = {}
+): Promise<Migration[]> {
+  const log = options.log || console.log;
+  const migrations = loadMigrations();
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    checkDrift(migrations, applied, log);
+
+    const appliedVersions = new Set(applied.map((row) => row.version));
+    const pending = migrations.filter((m) => !appliedVersions.has(m.version));
+
+    if (!pending.length) {
+      log("✅ Database schema is up to date");
+      return [];
+    }
+
+    if (options.dryRun) {
+      if (!applied.length) log(`-- schema_migrations ledger${LEDGER_TABLE_SQL}`);
+      for (const migration of pending) {
+        log(`-- ${migration.version}-${migration.name} (up)\n${migration.up.trim()}\n`);
+      }
+      return pending;
+    }
+
+    await client.query(LEDGER_TABLE_SQL);
+
+    for (const migration of pending) {
+      log(`🔄 Applying migration ${migration.version}-${migration.name}...`);
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.up);
+        await client.query(
+          "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(
+          `Migration ${migration.version}-${migration.name} failed: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+
+    log(`✅ Applied ${pending.length} migration(s)`);
+    return pending;
+  });
+}
+
+/**
+ * Roll back the most recently applied migrations
+ * @returns The migrations that were rolled back (or would be, in dry-run mode)
+ */
+export async function migrateDown(
+  pool: Pool,
+  options: MigrateOptions = {}
+): Promise<Migration[]> {
+  const log = options.log || console.log;
+  const steps = Math.max(1, options.steps || 1);
+  const migrations = loadMigrations();
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const targets = applied.slice(-steps).reverse();
+
+    if (!targets.length) {
+      log("ℹ️ No applied migrations to roll back");
+      return [];
+    }
+
+    // Refuse to start if any target cannot be reverted
+    const rollbacks = targets.map((row) => {
+      const migration = byVersion.get(row.version);
+      if (!migration) {
+        throw new Error(
+          `Cannot roll back migration ${row.version} (${row.name}): file not found`
+        );
+      }
+      return migration;
+    });
+
+    if (options.dryRun) {
+      for (const migration of rollbacks) {
+        log(`-- ${migration.version}-${migration.name} (down)\n${migration.down.trim()}\n`);
+      }
+      return rollbacks;
+    }
+
+    for (const migration of rollbacks) {
+      log(`🔄 Rolling back migration ${migration.version}-${migration.name}...`);
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.down);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(
+          `Rollback of ${migration.version}-${migration.name} failed: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+
+    log(`✅ Rolled back ${rollbacks.length} migration(s)`);
+    return rollbacks;
+  });
+}
+
+/**
+ * List every known migration with its applied timestamp (null when pending)
+ */
+export async function migrationStatus(
+  pool: Pool
+): Promise<{ version: number; name: string; appliedAt: Date | null }[]> {
+  const migrations = loadMigrations();
+  const client = await pool.connect();
+
+  try {
+    const applied = await getAppliedMigrations(client);
+    const appliedAt = new Map(applied.map((row) => [row.version, row.applied_at]));
+
+    return migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: appliedAt.get(m.version) || null,
+    }));
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,166 @@
+// Outbound email notifications
+// Every notify* function only enqueues an "email.send" job, so it never throws
+// or slows down the request that triggered it; delivery and retries happen on
+// the job queue
+import path from "path";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { enqueueJob } from "../jobs/queue";
+import { EmailMessage, MailTransport } from "./types";
+import { SmtpTransport } from "./transports/smtp";
+import { FileTransport } from "./transports/file";
+import { MemoryTransport } from "./transports/memory";
+import * as templates from "./templates";
+
+export { EmailMessage, MailTransport } from "./types";
+export { MemoryTransport } from "./transports/memory";
+
+// Admins who receive the pending-posts digest (comma-separated)
+const DIGEST_RECIPIENTS = (process.env.ADMIN_DIGEST_RECIPIENTS || "")
+  .split(",")
+  .map((address) => address.trim())
+  .filter(Boolean);
+
+/**
+ * Pick the transport from MAIL_TRANSPORT ("smtp", "file" or "memory")
+ * Defaults to SMTP when SMTP_HOST is set, otherwise to memory so nothing
+ * leaves the machine by accident
+ */
+function createTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "memory");
+
+  switch (kind) {
+    case "smtp":
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST || "localhost",
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.MAIL_FROM || "no-reply@localhost",
+      });
+    case "file":
+      return new FileTransport(
+        path.resolve(process.env.MAIL_FILE_DIR || "mail-outbox")
+      );
+    case "memory":
+      return new MemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+// Job type that delivers one email
+export const EMAIL_JOB = "email.send";
+
+let transport: MailTransport | null = null;
+
+/**
+ * Replace the transport (e.g. with a MemoryTransport in tests)
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+/**
+ * Deliver an email now through the configured transport
+ * Called by the "email.send" job; throws if the transport rejects it so the
+ * job is retried
+ */
+export async function deliverEmail(message: EmailMessage): Promise<void> {
+  transport = transport || createTransport();
+  await transport.send(message);
+}
+
+/**
+ * Queue an email for delivery
+ */
+function send(to: string | string[], email: templates.RenderedEmail) {
+  const message: EmailMessage = { to, ...email };
+  // Losing an email must not fail the request that triggered it
+  enqueueJob(EMAIL_JOB, { ...message }).catch((error) =>
+    console.error("Failed to queue email:", error)
+  );
+}
+
+/**
+ * The post fields notifications need
+ */
+type NotifiablePost = templates.TemplatePost & {
+  authorEmail: string;
+  status: string;
+  adminNotes?: string | null;
+  publishAt?: Date | null;
+};
+
+/**
+ * Tell the author their submission arrived
+ */
+export function notifySubmissionReceived(post: NotifiablePost) {
+  send(post.authorEmail, templates.submissionReceived(post));
+}
+
+/**
+ * Tell the author about a moderation decision
+ * @param previousStatus Status before the change; only decisions on posts in
+ *        review are emailed (not e.g. archiving or re-publishing)
+ * @param review Edit link details when changes were requested
+ */
+export function notifyStatusChange(
+  post: NotifiablePost,
+  previousStatus: string,
+  review?: { feedback: string; editToken: string; expiresAt: Date } | null
+) {
+  const inReview = ["pending", "changes_requested"].includes(previousStatus);
+
+  if (post.status === "changes_requested" && review) {
+    send(
+      post.authorEmail,
+      templates.changesRequested(
+        post,
+        review.feedback,
+        review.editToken,
+        review.expiresAt
+      )
+    );
+  } else if (post.status === "rejected" && inReview) {
+    send(post.authorEmail, templates.postRejected(post));
+  } else if (
+    ["approved", "scheduled", "published"].includes(post.status) &&
+    inReview
+  ) {
+    send(post.authorEmail, templates.postApproved(post));
+  }
+}
+
+/**
+ * Email the admin digest of posts awaiting review
+ * Nothing is sent when there are no pending posts or no recipients
+ * @returns Number of pending posts and whether a digest was queued
+ */
+export async function sendPendingDigest(): Promise<{
+  pendingCount: number;
+  sent: boolean;
+}> {
+  const pending = await db
+    .select({
+      title: blogs.title,
+      authorName: blogs.authorName,
+      submissionDate: blogs.submissionDate,
+    })
+    .from(blogs)
+    .where(and(eq(blogs.status, "pending"), isNull(blogs.deletedAt)))
+    .orderBy(asc(blogs.submissionDate))
+    .execute();
+
+  if (!pending.length) return { pendingCount: 0, sent: false };
+
+  if (!DIGEST_RECIPIENTS.length) {
+    console.warn("📧 ADMIN_DIGEST_RECIPIENTS is not set; skipping pending digest");
+    return { pendingCount: pending.length, sent: false };
+  }
+
+  send(DIGEST_RECIPIENTS, templates.pendingDigest(pending));
+  return { pendingCount: pending.length, sent: true };
+}
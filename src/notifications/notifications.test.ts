@@ -0,0 +1,193 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import express from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { jobs } from "../schema";
+import { startJobs } from "../jobs";
+import blogRoutes from "../routes/blog";
+import { waitFor } from "../testing/wait";
+import * as templates from "./templates";
+import {
+  EMAIL_JOB,
+  EmailMessage,
+  MailTransport,
+  MemoryTransport,
+  notifySubmissionReceived,
+  setMailTransport,
+} from ".";
+
+const post = {
+  title: "Cats & <Dogs>",
+  slug: "cats-and-dogs",
+  authorName: "Sam",
+};
+
+describe("email templates", () => {
+  test("submissionReceived thanks the author", () => {
+    const email = templates.submissionReceived(post);
+
+    assert.equal(email.subject, 'We received your post "Cats & <Dogs>"');
+    assert.match(email.text, /^Hi Sam,/);
+    assert.match(email.text, /Thanks for submitting "Cats & <Dogs>"/);
+    assert.match(email.text, /\n— .+$/);
+    // Post fields are escaped in HTML
+    assert.match(email.html, /Cats &amp; &lt;Dogs&gt;/);
+    assert.doesNotMatch(email.html, /<Dogs>/);
+  });
+
+  test("postApproved links to published posts", () => {
+    const email = templates.postApproved({ ...post, status: "published" });
+
+    assert.equal(email.subject, 'Your post "Cats & <Dogs>" was approved');
+    assert.match(email.text, /It is now live\./);
+    assert.match(email.text, /Read it here: .*cats-and-dogs/);
+    assert.match(email.html, /<a href="[^"]*cats-and-dogs">Read it here<\/a>/);
+  });
+
+  test("postApproved gives the date of scheduled posts", () => {
+    const publishAt = new Date("2030-01-02T03:04:05Z");
+    const email = templates.postApproved({ ...post, status: "scheduled", publishAt });
+
+    assert.match(email.text, /scheduled to go live on Wed, 02 Jan 2030 03:04:05 GMT/);
+    assert.doesNotMatch(email.text, /Read it here/);
+  });
+
+  test("postRejected includes moderator notes when there are any", () => {
+    const withNotes = templates.postRejected({ ...post, adminNotes: "Too short\nSorry" });
+    const withoutNotes = templates.postRejected(post);
+
+    assert.equal(withNotes.subject, 'Your post "Cats & <Dogs>" was not accepted');
+    assert.match(withNotes.text, /Moderator notes:\nToo short\nSorry/);
+    assert.match(withNotes.html, /Moderator notes:<br>Too short<br>Sorry/);
+    assert.doesNotMatch(withoutNotes.text, /Moderator notes/);
+  });
+
+  test("changesRequested sends the feedback and private edit link", () => {
+    const expiresAt = new Date("2030-01-02T00:00:00Z");
+    const email = templates.changesRequested(post, "Add <sources>", "a.b/c", expiresAt);
+
+    assert.equal(email.subject, 'Changes requested for "Cats & <Dogs>"');
+    assert.match(email.text, /Add <sources>/);
+    assert.match(email.text, /expires on Wed, 02 Jan 2030 00:00:00 GMT/);
+    assert.match(email.text, /Edit your submission: \S+\/submissions\/a\.b%2Fc\n/);
+    assert.match(email.html, /Add &lt;sources&gt;/);
+  });
+
+  test("pendingDigest lists every waiting post", () => {
+    const submissionDate = new Date("2030-01-02T00:00:00Z");
+    const one = templates.pendingDigest([{ ...post, submissionDate }]);
+    const two = templates.pendingDigest([
+      { ...post, submissionDate },
+      { title: "Second", authorName: "Kim", submissionDate },
+    ]);
+
+    assert.equal(one.subject, "1 post awaiting review");
+    assert.match(one.text, /There is 1 post waiting for review/);
+    assert.equal(two.subject, "2 posts awaiting review");
+    assert.match(two.text, /• "Cats & <Dogs>" by Sam \(submitted Wed, 02 Jan 2030/);
+    assert.match(two.text, /• "Second" by Kim/);
+    assert.match(two.text, /Open the review queue: \S+\/admin\n/);
+  });
+});
+
+/**
+ * A transport whose server is down
+ */
+class FailingTransport implements MailTransport {
+  readonly name = "failing";
+  attempts = 0;
+
+  async send(message: EmailMessage): Promise<void> {
+    this.attempts++;
+    throw new Error("SMTP server unavailable");
+  }
+}
+
+describe("email delivery", requiresDatabase, () => {
+  let stopJobs: () => Promise<void>;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const emailJobs = () => db.select().from(jobs).where(eq(jobs.type, EMAIL_JOB)).execute();
+
+  before(async () => {
+    await migrateTestDatabase();
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/blogs", blogRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    stopJobs = startJobs();
+  });
+
+  afterEach(async () => {
+    await stopJobs();
+  });
+
+  test("delivers queued emails through the transport", async () => {
+    const transport = new MemoryTransport();
+    setMailTransport(transport);
+
+    notifySubmissionReceived({ ...post, authorEmail: "sam@example.com", status: "pending" });
+
+    await waitFor(() => transport.sent.length > 0);
+    assert.equal(transport.sent[0].to, "sam@example.com");
+    assert.equal(transport.sent[0].subject, 'We received your post "Cats & <Dogs>"');
+
+    const [job] = await waitFor(async () => {
+      const rows = await emailJobs();
+      return rows[0]?.status === "completed" && rows;
+    });
+    assert.equal(job.attempts, 1);
+  });
+
+  test("a failing transport leaves the email queued for retry and the submission succeeds", async () => {
+    const transport = new FailingTransport();
+    setMailTransport(transport);
+
+    const response = await fetch(`${baseUrl}/api/blogs/submit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: "Hello",
+        content: "<p>World</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+      }),
+    });
+    const body: any = await response.json();
+
+    assert.equal(response.status, 201);
+    assert.equal(body.success, true);
+    assert.equal(body.data.status, "pending");
+
+    // Attempted once, then back in the queue with a delay
+    const [job] = await waitFor(async () => {
+      const rows = await emailJobs();
+      return rows[0]?.attempts === 1 && rows[0].status === "queued" && rows;
+    });
+    assert.equal(transport.attempts, 1);
+    assert.match(job.lastError, /SMTP server unavailable/);
+    assert.ok(job.runAt.getTime() > Date.now());
+    assert.equal((job.payload as EmailMessage).to, "sam@example.com");
+  });
+});
@@ -0,0 +1,154 @@
+// Email templates: each returns a subject plus plain-text and HTML bodies
+import { config, postUrl } from "../config";
+
+/**
+ * A rendered email without its recipient
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * The post fields templates use
+ */
+export interface TemplatePost {
+  title: string;
+  slug: string;
+  authorName: string;
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Build plain-text and HTML bodies from paragraphs
+ * Paragraphs are plain text; links are given separately so they are clickable in HTML
+ */
+function render(
+  subject: string,
+  paragraphs: string[],
+  link?: { label: string; url: string }
+): RenderedEmail {
+  const textParts = [...paragraphs];
+  if (link) textParts.push(`${link.label}: ${link.url}`);
+  textParts.push(`— ${config.siteName}`);
+
+  const htmlParts = paragraphs.map(
+    (p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`
+  );
+  if (link) {
+    htmlParts.push(
+      `<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`
+    );
+  }
+  htmlParts.push(`<p>— ${escapeHtml(config.siteName)}</p>`);
+
+  return {
+    subject,
+    text: textParts.join("\n\n"),
+    html: htmlParts.join("\n"),
+  };
+}
+
+/**
+ * Sent to the author right after they submit a post
+ */
+export function submissionReceived(post: TemplatePost): RenderedEmail {
+  return render(`We received your post "${post.title}"`, [
+    `Hi ${post.authorName},`,
+    `Thanks for submitting "${post.title}". A moderator will review it soon and we'll email you when there's news.`,
+  ]);
+}
+
+/**
+ * Sent to the author when their post is accepted (approved, scheduled or published)
+ */
+export function postApproved(
+  post: TemplatePost & { status: string; publishAt?: Date | null }
+): RenderedEmail {
+  const when =
+    post.status === "published"
+      ? "It is now live."
+      : post.status === "scheduled" && post.publishAt
+        ? `It is scheduled to go live on ${post.publishAt.toUTCString()}.`
+        : "It will be published soon.";
+
+  return render(
+    `Your post "${post.title}" was approved`,
+    [`Hi ${post.authorName},`, `Good news: "${post.title}" was approved. ${when}`],
+    post.status === "published"
+      ? { label: "Read it here", url: postUrl(post.slug) }
+      : undefined
+  );
+}
+
+/**
+ * Sent to the author when their post is rejected
+ */
+export function postRejected(
+  post: TemplatePost & { adminNotes?: string | null }
+): RenderedEmail {
+  const paragraphs = [
+    `Hi ${post.authorName},`,
+    `Thanks for submitting "${post.title}". Unfortunately we won't be publishing it.`,
+  ];
+  if (post.adminNotes) paragraphs.push(`Moderator notes:\n${post.adminNotes}`);
+
+  return render(`Your post "${post.title}" was not accepted`, paragraphs);
+}
+
+/**
+ * Sent to the author with their private edit link when changes are requested
+ */
+export function changesRequested(
+  post: TemplatePost,
+  feedback: string,
+  editToken: string,
+  expiresAt: Date
+): RenderedEmail {
+  return render(
+    `Changes requested for "${post.title}"`,
+    [
+      `Hi ${post.authorName},`,
+      `A moderator reviewed "${post.title}" and asked for some changes before it can be published:`,
+      feedback,
+      `Use the private link below to revise and resubmit your post. Don't share it: anyone with the link can edit your submission. It expires on ${expiresAt.toUTCString()}.`,
+    ],
+    {
+      label: "Edit your submission",
+      url: `${config.siteUrl}/submissions/${encodeURIComponent(editToken)}`,
+    }
+  );
+}
+
+/**
+ * Digest for admins listing posts waiting for review
+ */
+export function pendingDigest(
+  posts: { title: string; authorName: string; submissionDate: Date }[]
+): RenderedEmail {
+  const lines = posts.map(
+    (post) =>
+      `• "${post.title}" by ${post.authorName} (submitted ${post.submissionDate.toUTCString()})`
+  );
+
+  return render(
+    `${posts.length} post${posts.length === 1 ? "" : "s"} awaiting review`,
+    [
+      `There ${posts.length === 1 ? "is 1 post" : `are ${posts.length} posts`} waiting for review:`,
+      lines.join("\n"),
+    ],
+    { label: "Open the review queue", url: `${config.siteUrl}/admin` }
+  );
+}
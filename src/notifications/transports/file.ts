@@ -0,0 +1,27 @@
+// File transport: writes each email to a directory instead of sending it
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { EmailMessage, MailTransport } from "../types";
+
+/**
+ * Write each email as a JSON file (useful in development and for inspection)
+ */
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto
+      .randomBytes(4)
+      .toString("hex")}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
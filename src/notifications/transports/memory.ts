@@ -0,0 +1,21 @@
+// In-memory transport: keeps sent emails in an array (for tests)
+import { EmailMessage, MailTransport } from "../types";
+
+/**
+ * Collect emails in memory instead of sending them
+ */
+export class MemoryTransport implements MailTransport {
+  readonly name = "memory";
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Forget all collected emails
+   */
+  clear() {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,44 @@
+// SMTP transport backed by nodemailer
+import nodemailer, { Transporter } from "nodemailer";
+import { EmailMessage, MailTransport } from "../types";
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Deliver email through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(private options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+// Shared types for outbound notifications
+
+/**
+ * An email ready to hand to a transport
+ */
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Something that can deliver email (SMTP, a directory of files, memory...)
+ * send() should throw if the message wasn't accepted, so the queue can retry it
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,131 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  createTestAdmin,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import express from "express";
+import cookieParser from "cookie-parser";
+import * as bcrypt from "bcrypt";
+import { eq } from "drizzle-orm";
+import { db, isUniqueViolation } from "../db";
+import { admins, loginAttempts } from "../schema";
+import { generateTotpSecret } from "../utils/totp";
+import { regenerateRecoveryCodes } from "../utils/two-factor";
+import authRoutes from "./admin-auth";
+
+const PASSWORD = "correct horse battery staple";
+
+describe("admin login", requiresDatabase, () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let adminId: string;
+
+  const post = async (path: string, body: object) => {
+    const response = await fetch(`${baseUrl}/api/auth${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  const failures = async () => {
+    const [admin] = await db
+      .select({ failedLoginAttempts: admins.failedLoginAttempts })
+      .from(admins)
+      .where(eq(admins.id, adminId))
+      .execute();
+    const [userKey] = await db
+      .select({ failures: loginAttempts.failures })
+      .from(loginAttempts)
+      .where(eq(loginAttempts.key, "user:test-admin"))
+      .execute();
+    return { account: admin.failedLoginAttempts, username: userKey?.failures ?? 0 };
+  };
+
+  before(async () => {
+    await migrateTestDatabase();
+
+    const app = express();
+    app.use(express.json());
+    app.use(cookieParser("test-secret"));
+    app.use("/api/auth", authRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    adminId = await createTestAdmin();
+    await db
+      .update(admins)
+      .set({ password: await bcrypt.hash(PASSWORD, 4) })
+      .where(eq(admins.id, adminId))
+      .execute();
+  });
+
+  test("a successful password-only login clears earlier failures", async () => {
+    await post("/login", { username: "test-admin", password: "wrong" });
+    assert.deepEqual(await failures(), { account: 1, username: 1 });
+
+    const { status, body } = await post("/login", { username: "test-admin", password: PASSWORD });
+
+    assert.equal(status, 200);
+    assert.ok(body.token);
+    assert.deepEqual(await failures(), { account: 0, username: 0 });
+  });
+
+  test("failures under a differently-cased username count against the account", async () => {
+    await post("/login", { username: "Test-Admin", password: "wrong" });
+
+    assert.deepEqual(await failures(), { account: 1, username: 1 });
+  });
+
+  test("usernames differing only in case can't both exist", async () => {
+    await assert.rejects(createTestAdmin("TEST-ADMIN"), (error: unknown) =>
+      isUniqueViolation(error)
+    );
+  });
+
+  test("the password step doesn't clear failed 2FA codes", async () => {
+    await db
+      .update(admins)
+      .set({ totpSecret: generateTotpSecret(), totpEnabledAt: new Date() })
+      .where(eq(admins.id, adminId))
+      .execute();
+    const [recoveryCode] = await regenerateRecoveryCodes(adminId);
+
+    const login = () => post("/login", { username: "test-admin", password: PASSWORD });
+
+    // Wrong codes, each after a fresh (correct) password step
+    for (let i = 0; i < 2; i++) {
+      const { body } = await login();
+      assert.equal(body.twoFactorRequired, true);
+      const second = await post("/login/2fa", {
+        challengeToken: body.challengeToken,
+        code: "000000",
+      });
+      assert.equal(second.status, 401);
+    }
+
+    const { body } = await login();
+    assert.deepEqual(await failures(), { account: 2, username: 2 });
+
+    // Only finishing the second factor resets the counters
+    const done = await post("/login/2fa", { challengeToken: body.challengeToken, recoveryCode });
+    assert.equal(done.status, 200);
+    assert.ok(done.body.token);
+    assert.deepEqual(await failures(), { account: 0, username: 0 });
+  });
+});
@@ -3,6 +3,38 @@ import express, { Router, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { db, withClient } from "../db";
 import * as bcrypt from "bcrypt";
+import { verifyJWT } from "../middleware/auth-middleware";
+import {
+  AccessTokenPayload,
+  ACCESS_TOKEN_TTL_SECONDS,
+  createSession,
+  signAccessToken,
+  setAuthCookies,
+  clearAuthCookies,
+  rotateRefreshToken,
+  findSessionByRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+} from "../utils/sessions";
+import {
+  beginEnrollment,
+  activateTwoFactor,
+  regenerateRecoveryCodes,
+  verifyAdminTotp,
+  useRecoveryCode,
+  resetTwoFactor,
+  signLoginChallenge,
+  verifyLoginChallenge,
+} from "../utils/two-factor";
+import {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  clearLoginFailures,
+} from "../utils/login-throttle";
+import { loginLimiter } from "../middleware/rateLimiter";
+import { admins } from "../schema";
+import { eq } from "drizzle-orm";
 
 /**
  * TypeScript interface for admin user from database
@@ -11,26 +43,87 @@ interface AdminUser {
   id: string;
   username: string;
   password: string;
+  role: string;
   created_at: Date;
   last_login: Date | null;
+  disabled_at: Date | null;
+  totp_enabled_at: Date | null;
 }
 
+// Create express router
+const router = express.Router();
+
+// Hash compared against when the username doesn't exist, so unknown and
+// known usernames take the same time to reject
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("not-a-real-password", 10);
+
 /**
- * TypeScript interface for authentication payload
+ * Send the response for a throttled or locked-out login
+ * Identical for existing and unknown usernames
  */
-interface AuthPayload {
-  id: string;
-  username: string;
+function sendLoginThrottled(res: Response, retryAfter: number) {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    message: "Too many failed login attempts. Please try again later.",
+    retryAfter,
+  });
 }
 
-// Create express router
-const router = express.Router();
+/**
+ * Finish a successful login: record it, start a session and issue tokens
+ * Shared by the password-only login and the second-factor step
+ */
+async function completeLogin(
+  req: Request,
+  res: Response,
+  admin: { id: string; username: string; role: string }
+) {
+  // Fully authenticated: forget earlier failures for this username
+  await clearLoginFailures(admin.username);
+
+  // Update last login timestamp
+  await withClient(async (client) => {
+    await client.query("UPDATE admins SET last_login = NOW() WHERE id = $1", [
+      admin.id,
+    ]);
+  });
+
+  // Start a server-side session (refresh token family) for this login
+  const { sessionId, refreshToken } = await createSession(admin.id, {
+    ip: req.ip,
+    userAgent: req.get("user-agent"),
+  });
+
+  // Create payload for JWT
+  const authPayload: AccessTokenPayload = {
+    id: admin.id,
+    username: admin.username,
+    role: admin.role,
+    sid: sessionId,
+  };
+
+  // Generate JWT token and set auth cookies
+  const token = signAccessToken(authPayload);
+  setAuthCookies(res, token, refreshToken);
+
+  // Send success response with tokens
+  return res.json({
+    success: true,
+    message: "Login successful",
+    token: token, // Return token in response for clients to use in Authorization header
+    refreshToken, // For API clients that can't use the refresh cookie
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
 
 /**
  * POST /api/auth/login
  * Authenticate admin user and return JWT token
+ * Admins with 2FA enabled instead get { twoFactorRequired: true, challengeToken }
+ * and must finish with POST /api/auth/login/2fa
  */
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", loginLimiter, async (req: Request, res: Response) => {
   try {
     // Get credentials from request - correctly typed
     const username = req.body?.username as string;
@@ -44,13 +137,19 @@ router.post("/login", async (req: Request, res: Response) => {
       });
     }
 
+    // Refuse early while the IP or username is backing off / locked out
+    const retryAfter = await getLoginRetryAfter(req.ip, username);
+    if (retryAfter > 0) {
+      return sendLoginThrottled(res, retryAfter);
+    }
+
     // Database variable to store admin user
     let foundAdmin: AdminUser | null = null;
 
     // Query database for admin user
     await withClient(async (client) => {
       const result = await client.query(
-        "SELECT id, username, password, created_at, last_login FROM admins WHERE username = $1",
+        "SELECT id, username, password, role, created_at, last_login, disabled_at, totp_enabled_at FROM admins WHERE username = $1",
         [username]
       );
 
@@ -61,140 +160,467 @@ router.post("/login", async (req: Request, res: Response) => {
           id: row.id,
           username: row.username,
           password: row.password,
+          role: row.role,
           created_at: row.created_at,
           last_login: row.last_login,
+          disabled_at: row.disabled_at,
+          totp_enabled_at: row.totp_enabled_at,
         };
       }
     });
 
-    // Handle case where admin is not found
-    if (!foundAdmin) {
+    // Always run bcrypt, even for unknown usernames, so timing doesn't reveal them
+    const validPassword = await bcrypt.compare(
+      password,
+      foundAdmin ? foundAdmin.password : DUMMY_PASSWORD_HASH
+    );
+
+    if (!foundAdmin || !validPassword) {
+      await recordLoginFailure(req.ip, username);
       return res.status(401).json({
         success: false,
         message: "Invalid credentials",
       });
     }
 
-    // Verify password with a known-to-be-not-null admin
-    const adminPassword = foundAdmin.password;
-    const validPassword = await bcrypt.compare(password, adminPassword);
+    // Disabled accounts can't sign in
+    if (foundAdmin.disabled_at) {
+      return res.status(403).json({
+        success: false,
+        message: "Account is disabled",
+      });
+    }
 
-    if (!validPassword) {
-      return res.status(401).json({
+    // Second factor required: hand out a short-lived challenge instead of tokens
+    if (foundAdmin.totp_enabled_at) {
+      return res.json({
+        success: true,
+        message: "Two-factor authentication required",
+        twoFactorRequired: true,
+        challengeToken: signLoginChallenge(foundAdmin.id),
+      });
+    }
+
+    return await completeLogin(req, res, foundAdmin);
+  } catch (error) {
+    console.error("Login error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Server error during login",
+    });
+  }
+});
+
+/**
+ * POST /api/auth/login/2fa
+ * Complete a login that requires two-factor authentication
+ * Body: { challengeToken: string, code?: string, recoveryCode?: string }
+ */
+router.post("/login/2fa", loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body || {};
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({
         success: false,
-        message: "Invalid credentials",
+        message: "Challenge token and a code or recovery code are required",
       });
     }
 
-    // Use a non-null reference to admin for type safety
-    const adminId = foundAdmin.id;
-    const adminUsername = foundAdmin.username;
+    const adminId = verifyLoginChallenge(challengeToken);
+    if (!adminId) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid or expired login challenge",
+      });
+    }
 
-    // Update last login timestamp
-    await withClient(async (client) => {
-      await client.query(
-        "UPDATE admins SET last_login = NOW() WHERE id = $1",
-        [adminId] // Using extracted variable instead of admin.id
+    // Re-check the account: it may have been disabled since the password step
+    const admin = await withClient(async (client) => {
+      const result = await client.query(
+        "SELECT id, username, role, disabled_at FROM admins WHERE id = $1",
+        [adminId]
       );
+      return result.rows[0];
     });
 
-    // Create payload for JWT
-    const authPayload: AuthPayload = {
-      id: adminId,
-      username: adminUsername,
-    };
+    if (!admin || admin.disabled_at) {
+      return res.status(403).json({
+        success: false,
+        message: "Account is disabled",
+      });
+    }
 
-    // Generate JWT token
-    const token = jwt.sign(authPayload, process.env.JWT_SECRET || "secret", {
-      expiresIn: "30m",
-    });
+    // Wrong codes count towards the same backoff and lockout as wrong passwords
+    const retryAfter = await getLoginRetryAfter(req.ip, admin.username);
+    if (retryAfter > 0) {
+      return sendLoginThrottled(res, retryAfter);
+    }
+
+    const valid = code
+      ? await verifyAdminTotp(adminId, String(code))
+      : await useRecoveryCode(adminId, String(recoveryCode));
+
+    if (!valid) {
+      await recordLoginFailure(req.ip, admin.username);
+      return res.status(401).json({
+        success: false,
+        message: "Invalid two-factor code",
+      });
+    }
 
-    // Set JWT cookie (for backward compatibility)
-    res.cookie("admin_token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      maxAge: 30 * 60 * 1000, // 30 minutes
-      sameSite: "lax",
-      signed: true,
+    return await completeLogin(req, res, admin);
+  } catch (error) {
+    console.error("2FA login error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Server error during login",
     });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enroll
+ * Start 2FA enrollment for the signed-in admin
+ * Returns the secret and an otpauth:// URI; 2FA isn't enforced until activated
+ */
+router.post("/2fa/enroll", verifyJWT, async (req: Request, res: Response) => {
+  try {
+    const admin = (req as any).admin as AccessTokenPayload;
+
+    const [current] = await db
+      .select({ enabledAt: admins.totpEnabledAt })
+      .from(admins)
+      .where(eq(admins.id, admin.id))
+      .execute();
+
+    if (current?.enabledAt) {
+      return res.status(409).json({
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      });
+    }
+
+    const enrollment = await beginEnrollment(admin.id, admin.username);
 
-    // Send success response with token
     return res.json({
       success: true,
-      message: "Login successful",
-      token: token, // Return token in response for clients to use in Authorization header
+      data: enrollment,
+      message: "Scan the URI with an authenticator app, then activate with a code",
     });
   } catch (error) {
-    console.error("Login error:", error);
+    console.error("2FA enrollment error:", error);
     return res.status(500).json({
       success: false,
-      message: "Server error during login",
+      message: "Server error during 2FA enrollment",
     });
   }
 });
 
 /**
- * POST /api/auth/logout
- * Clear admin authentication cookie
+ * POST /api/auth/2fa/activate
+ * Confirm enrollment with a code from the authenticator app
+ * Body: { code: string }
+ * Returns one-time recovery codes, which are never shown again
  */
-router.post("/logout", (req: Request, res: Response) => {
-  // Clear auth cookie
-  res.clearCookie("admin_token");
+router.post("/2fa/activate", verifyJWT, async (req: Request, res: Response) => {
+  try {
+    const admin = (req as any).admin as AccessTokenPayload;
+    const recoveryCodes = await activateTwoFactor(
+      admin.id,
+      String(req.body?.code || "")
+    );
 
-  // Send success response
-  return res.json({
-    success: true,
-    message: "Logged out successfully",
-  });
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid code or no pending enrollment",
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { recoveryCodes },
+      message: "Two-factor authentication enabled",
+    });
+  } catch (error) {
+    console.error("2FA activation error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Server error during 2FA activation",
+    });
+  }
 });
 
 /**
- * GET /api/auth/validate
- * Check if user is authenticated based on JWT
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the signed-in admin's recovery codes
+ * Body: { code: string } - a current authenticator code
+ */
+router.post(
+  "/2fa/recovery-codes",
+  loginLimiter,
+  verifyJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const admin = (req as any).admin as AccessTokenPayload;
+
+      // Wrong codes count towards the login backoff, so a stolen access
+      // token can't be used to guess the code
+      const retryAfter = await getLoginRetryAfter(req.ip, admin.username);
+      if (retryAfter > 0) {
+        return sendLoginThrottled(res, retryAfter);
+      }
+
+      if (!(await verifyAdminTotp(admin.id, String(req.body?.code || "")))) {
+        await recordLoginFailure(req.ip, admin.username);
+        return res.status(401).json({
+          success: false,
+          message: "Invalid two-factor code",
+        });
+      }
+
+      await clearLoginFailures(admin.username);
+      const recoveryCodes = await regenerateRecoveryCodes(admin.id);
+
+      return res.json({
+        success: true,
+        data: { recoveryCodes },
+        message: "Recovery codes regenerated",
+      });
+    } catch (error) {
+      console.error("Recovery code regeneration error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Server error while regenerating recovery codes",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn off 2FA for the signed-in admin
+ * Body: { password: string, code: string } - current password and authenticator code
  */
-router.get("/validate", (req: Request, res: Response) => {
+router.post(
+  "/2fa/disable",
+  loginLimiter,
+  verifyJWT,
+  async (req: Request, res: Response) => {
+    try {
+      const admin = (req as any).admin as AccessTokenPayload;
+      const { password, code } = req.body || {};
+
+      // Same backoff and lockout as the login, for wrong passwords and codes alike
+      const retryAfter = await getLoginRetryAfter(req.ip, admin.username);
+      if (retryAfter > 0) {
+        return sendLoginThrottled(res, retryAfter);
+      }
+
+      const [account] = await db
+        .select({ password: admins.password })
+        .from(admins)
+        .where(eq(admins.id, admin.id))
+        .execute();
+
+      const validPassword =
+        !!account && !!password && (await bcrypt.compare(password, account.password));
+
+      if (!validPassword || !(await verifyAdminTotp(admin.id, String(code || "")))) {
+        await recordLoginFailure(req.ip, admin.username);
+        return res.status(401).json({
+          success: false,
+          message: "Invalid password or two-factor code",
+        });
+      }
+
+      await clearLoginFailures(admin.username);
+      await resetTwoFactor(admin.id);
+
+      return res.json({
+        success: true,
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error) {
+      console.error("2FA disable error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Server error while disabling 2FA",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token (admin_refresh cookie or body.refreshToken) for a
+ * new access token and refresh token. Reusing an already-exchanged refresh
+ * token revokes the whole session.
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
   try {
-    // Get token from Authorization header or cookie
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith("Bearer ")
-      ? authHeader.substring(7)
-      : req.signedCookies?.admin_token;
+    const presented =
+      req.signedCookies?.admin_refresh || (req.body?.refreshToken as string);
 
-    if (!token) {
+    if (!presented) {
       return res.status(401).json({
         success: false,
-        message: "No authentication token provided",
+        message: "No refresh token provided",
       });
     }
 
-    // Verify the token
-    const decodedToken = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "secret"
-    ) as AuthPayload;
+    const result = await rotateRefreshToken(presented, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
 
-    if (!decodedToken) {
+    if (result.status !== "ok") {
+      clearAuthCookies(res);
       return res.status(401).json({
         success: false,
-        message: "Invalid authentication token",
+        message:
+          result.status === "reused"
+            ? "Refresh token reuse detected; session revoked"
+            : "Invalid or expired refresh token",
       });
     }
 
-    // User is authenticated
+    const token = signAccessToken(result.payload);
+    setAuthCookies(res, token, result.refreshToken);
+
     return res.json({
       success: true,
-      data: {
-        username: decodedToken.username,
-        authenticated: true,
-      },
+      message: "Token refreshed",
+      token,
+      refreshToken: result.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
     });
   } catch (error) {
-    console.error("Token validation error:", error);
-    return res.status(401).json({
+    console.error("Token refresh error:", error);
+    return res.status(500).json({
       success: false,
-      message: "Authentication failed",
+      message: "Server error during token refresh",
     });
   }
 });
 
+/**
+ * POST /api/auth/logout
+ * Revoke the current session and clear admin authentication cookies
+ * The session is found from the refresh token, or from the access token
+ * (expired access tokens are accepted here so stale clients can still log out)
+ */
+router.post("/logout", async (req: Request, res: Response) => {
+  try {
+    const refreshToken =
+      req.signedCookies?.admin_refresh || (req.body?.refreshToken as string);
+    const authHeader = req.headers.authorization;
+    const accessToken = authHeader?.startsWith("Bearer ")
+      ? authHeader.substring(7)
+      : req.signedCookies?.admin_token;
+
+    let sessionId: string | null = null;
+    if (refreshToken) {
+      sessionId = await findSessionByRefreshToken(refreshToken);
+    }
+    if (!sessionId && accessToken) {
+      try {
+        const decoded = jwt.verify(
+          accessToken,
+          process.env.JWT_SECRET || "secret",
+          { ignoreExpiration: true }
+        ) as AccessTokenPayload;
+        sessionId = decoded.sid || null;
+      } catch {
+        // Invalid token: nothing to revoke
+      }
+    }
+
+    if (sessionId) {
+      await revokeSession(sessionId, "logout");
+    }
+  } catch (error) {
+    // Still clear cookies so the client ends up logged out
+    console.error("Logout error:", error);
+  }
+
+  // Clear auth cookies
+  clearAuthCookies(res);
+
+  // Send success response
+  return res.json({
+    success: true,
+    message: "Logged out successfully",
+  });
+});
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session of the signed-in admin, including the current one
+ */
+router.post("/logout-all", verifyJWT, async (req: Request, res: Response) => {
+  try {
+    const admin = (req as any).admin as AccessTokenPayload;
+    const revoked = await revokeAllSessions(admin.id, "logout_all");
+
+    clearAuthCookies(res);
+
+    return res.json({
+      success: true,
+      message: "All sessions logged out",
+      data: { revokedSessions: revoked },
+    });
+  } catch (error) {
+    console.error("Logout-all error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Server error during logout",
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the signed-in admin's active sessions
+ */
+router.get("/sessions", verifyJWT, async (req: Request, res: Response) => {
+  try {
+    const admin = (req as any).admin as AccessTokenPayload;
+    const sessions = await listActiveSessions(admin.id);
+
+    return res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        ...session,
+        current: session.id === admin.sid,
+      })),
+    });
+  } catch (error) {
+    console.error("Session listing error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Server error while listing sessions",
+    });
+  }
+});
+
+/**
+ * GET /api/auth/validate
+ * Check if user is authenticated based on JWT and an active session
+ */
+router.get("/validate", verifyJWT, (req: Request, res: Response) => {
+  const admin = (req as any).admin as AccessTokenPayload;
+
+  // User is authenticated
+  return res.json({
+    success: true,
+    data: {
+      username: admin.username,
+      role: admin.role,
+      authenticated: true,
+    },
+  });
+});
+
 export default router;
@@ -0,0 +1,174 @@
+// Admin routes for inspecting and retrying background jobs
+import { Router, Request, Response } from "express";
+import { isUniqueViolation } from "../db";
+import { requirePermission } from "../middleware/auth-middleware";
+import { jobQueryValidators, checkValidation } from "../middleware/validate";
+import { listJobs, getJob, retryJob, JobFilters, JobStatus } from "../jobs/queue";
+
+const router = Router();
+
+/**
+ * Send a 404 response for an unknown job ID
+ */
+function sendJobNotFound(res: Response) {
+  res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message: "Job not found",
+    },
+  });
+}
+
+/**
+ * Send a 409 response for a dead job whose dedupe key is already taken
+ */
+function sendDuplicateJob(res: Response, dedupeKey: string | null) {
+  res.status(409).json({
+    success: false,
+    error: {
+      code: "DUPLICATE_JOB",
+      message: `Another job with dedupe key "${dedupeKey}" is already queued or running; retry this one after it finishes`,
+    },
+  });
+}
+
+/**
+ * GET /api/admin/jobs
+ * List background jobs, most recently updated first
+ * Query parameters:
+ *   - status: queued, running, completed or dead
+ *   - type: exact job type, e.g. "email.send"
+ *   - page, limit: pagination (default 1 and 50, limit at most 200)
+ */
+router.get(
+  "/",
+  requirePermission("jobs:manage"),
+  jobQueryValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters: JobFilters = {
+        status: req.query.status as JobStatus | undefined,
+        type: req.query.type as string | undefined,
+      };
+
+      const page = Number(req.query.page) || 1;
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const { rows, total: totalCount } = await listJobs(
+        filters,
+        limit,
+        (page - 1) * limit
+      );
+
+      res.json({
+        success: true,
+        data: rows,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching jobs",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/jobs/:id
+ * Get a single job, including its payload and last error
+ */
+router.get(
+  "/:id",
+  requirePermission("jobs:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = await getJob(req.params.id);
+      if (!job) {
+        sendJobNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the job",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/jobs/:id/retry
+ * Re-queue a dead job with a fresh set of attempts
+ */
+router.post(
+  "/:id/retry",
+  requirePermission("jobs:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = await retryJob(req.params.id);
+      if (job) {
+        res.json({
+          success: true,
+          message: "Job queued for retry",
+          data: job,
+        });
+        return;
+      }
+
+      const existing = await getJob(req.params.id);
+      if (!existing) {
+        sendJobNotFound(res);
+        return;
+      }
+
+      // Dead, but e.g. a recurring job already has its next run queued
+      if (existing.status === "dead") {
+        sendDuplicateJob(res, existing.dedupeKey);
+        return;
+      }
+
+      res.status(409).json({
+        success: false,
+        error: {
+          code: "JOB_NOT_DEAD",
+          message: `Only dead jobs can be retried (this job is ${existing.status})`,
+        },
+      });
+    } catch (error) {
+      // A job with the same dedupe key was queued while this one was re-queued
+      if (isUniqueViolation(error)) {
+        const existing = await getJob(req.params.id).catch(() => null);
+        sendDuplicateJob(res, existing?.dedupeKey ?? null);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while retrying the job",
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,145 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  createTestAdmin,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import express from "express";
+import * as bcrypt from "bcrypt";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { adminAuditLog, admins } from "../schema";
+import { createSession, signAccessToken } from "../utils/sessions";
+import adminUserRoutes from "./admin-users";
+
+const PASSWORD = "correct horse battery staple";
+
+describe("admin user routes", requiresDatabase, () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let adminId: string;
+  let token: string;
+
+  /**
+   * Sign an access token for an admin, backed by a real session
+   */
+  const signIn = async (id: string, username: string) => {
+    const { sessionId } = await createSession(id, { ip: "127.0.0.1" });
+    return signAccessToken({ id, username, role: "superadmin", sid: sessionId });
+  };
+
+  const request = async (method: string, path: string, body?: object, as = token) => {
+    const response = await fetch(`${baseUrl}/api/admin/users${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${as}` },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  before(async () => {
+    await migrateTestDatabase();
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/admin/users", adminUserRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    adminId = await createTestAdmin();
+    await db
+      .update(admins)
+      .set({ password: await bcrypt.hash(PASSWORD, 4) })
+      .where(eq(admins.id, adminId))
+      .execute();
+    token = await signIn(adminId, "test-admin");
+  });
+
+  describe("PUT /me/password", () => {
+    const changePassword = (currentPassword: string) =>
+      request("PUT", "/me/password", {
+        currentPassword,
+        newPassword: "a whole new passphrase",
+      });
+
+    test("backs off after repeated wrong current passwords", async () => {
+      for (let i = 0; i < 3; i++) {
+        assert.equal((await changePassword("wrong")).status, 401);
+      }
+
+      // Blocked even with the right password until the backoff ends
+      const { status, body } = await changePassword(PASSWORD);
+      assert.equal(status, 429);
+      assert.equal(body.error.code, "TOO_MANY_REQUESTS");
+      assert.ok(body.retryAfter > 0);
+    });
+
+    test("changes the password, clears earlier failures and audits the change", async () => {
+      await changePassword("wrong");
+
+      const { status } = await changePassword(PASSWORD);
+
+      assert.equal(status, 200);
+      const [admin] = await db.select().from(admins).where(eq(admins.id, adminId)).execute();
+      assert.equal(admin.failedLoginAttempts, 0);
+      assert.ok(await bcrypt.compare("a whole new passphrase", admin.password));
+
+      const entries = await db.select().from(adminAuditLog).execute();
+      assert.deepEqual(
+        entries.map((entry) => [entry.action, entry.adminId, entry.targetId]),
+        [["admin.password_change", adminId, adminId]]
+      );
+    });
+  });
+
+  describe("the last active superadmin", () => {
+    let otherId: string;
+    let otherToken: string;
+
+    const activeSuperadmins = async () =>
+      (await db.select().from(admins).execute()).filter(
+        (admin) => admin.role === "superadmin" && !admin.disabledAt
+      ).length;
+
+    beforeEach(async () => {
+      otherId = await createTestAdmin("other-admin");
+      otherToken = await signIn(otherId, "other-admin");
+    });
+
+    const changes: [string, string, string, object?][] = [
+      ["demoted", "PUT", "role", { role: "editor" }],
+      ["disabled", "POST", "disable"],
+      ["deleted", "DELETE", ""],
+    ];
+
+    for (const [change, method, action, body] of changes) {
+      test(`can't be ${change} when two superadmins do it to each other at once`, async () => {
+        const path = (id: string) => (action ? `/${id}/${action}` : `/${id}`);
+
+        const results = await Promise.all([
+          request(method, path(otherId), body, token),
+          request(method, path(adminId), body, otherToken),
+        ]);
+
+        assert.equal(await activeSuperadmins(), 1);
+        // The loser is refused, or no longer allowed in once the winner committed
+        const statuses = results.map((result) => result.status).sort();
+        assert.equal(statuses[0], 200);
+        assert.ok([403, 409].includes(statuses[1]), `status ${statuses[1]}`);
+      });
+    }
+  });
+});
@@ -0,0 +1,710 @@
+// Admin user management routes
+import { Router, Request, Response } from "express";
+import * as bcrypt from "bcrypt";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { db, Executor, isUniqueViolation } from "../db";
+import { admins } from "../schema";
+import { verifyJWT, requirePermission } from "../middleware/auth-middleware";
+import {
+  adminCreateValidators,
+  adminRoleValidators,
+  passwordResetValidators,
+  passwordChangeValidators,
+  checkValidation,
+} from "../middleware/validate";
+import { revokeAllSessions } from "../utils/sessions";
+import { resetTwoFactor } from "../utils/two-factor";
+import { recordAudit, AuditAction } from "../utils/audit";
+import {
+  listLockouts,
+  unlockAdmin,
+  clearLockoutKey,
+  getLoginRetryAfter,
+  recordLoginFailure,
+  clearLoginFailures,
+} from "../utils/login-throttle";
+import { loginLimiter } from "../middleware/rateLimiter";
+
+const router = Router();
+
+// bcrypt cost factor for stored password hashes
+const SALT_ROUNDS = 10;
+
+// Columns that are safe to return (never the password hash)
+const publicColumns = {
+  id: admins.id,
+  username: admins.username,
+  role: admins.role,
+  createdAt: admins.createdAt,
+  lastLogin: admins.lastLogin,
+  disabledAt: admins.disabledAt,
+  totpEnabledAt: admins.totpEnabledAt,
+  failedLoginAttempts: admins.failedLoginAttempts,
+  lockedUntil: admins.lockedUntil,
+};
+
+/**
+ * Send a 404 response for an unknown admin ID
+ */
+function sendAdminNotFound(res: Response) {
+  res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message: "Admin not found",
+    },
+  });
+}
+
+/**
+ * Update the admin named by req.params.id and audit the change in one transaction
+ * @param keepSuperadmin Refuse with LastSuperadminError if this would leave no
+ * active superadmin
+ * @returns The updated admin's public columns, or null if it doesn't exist
+ */
+async function updateAdmin(
+  req: Request,
+  action: AuditAction,
+  values: PgUpdateSetSource<typeof admins>,
+  keepSuperadmin: boolean = false
+) {
+  return db.transaction(async (tx) => {
+    if (keepSuperadmin) await assertNotLastSuperadmin(tx, req.params.id);
+
+    const [before] = await tx
+      .select(publicColumns)
+      .from(admins)
+      .where(eq(admins.id, req.params.id))
+      .for("update")
+      .execute();
+    if (!before) return null;
+
+    const [after] = await tx
+      .update(admins)
+      .set(values)
+      .where(eq(admins.id, req.params.id))
+      .returning(publicColumns)
+      .execute();
+
+    await recordAudit(tx, req, {
+      action,
+      targetType: "admin",
+      targetId: req.params.id,
+      before,
+      after,
+    });
+    return after;
+  });
+}
+
+/**
+ * Reject requests where an admin targets their own account
+ * (self-lockout via disable/delete/demotion is never intended)
+ * @returns true if a response was sent
+ */
+function rejectSelfTarget(req: Request, res: Response, action: string): boolean {
+  if (req.params.id !== (req as any).admin.id) return false;
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "SELF_MODIFICATION",
+      message: `You cannot ${action} your own account`,
+    },
+  });
+  return true;
+}
+
+/**
+ * Error thrown when a change would leave no active superadmin
+ */
+class LastSuperadminError extends Error {
+  constructor() {
+    super("At least one active superadmin must remain");
+    this.name = "LastSuperadminError";
+  }
+}
+
+/**
+ * Make sure an admin isn't the last active superadmin before it's demoted,
+ * disabled or deleted
+ * Locks every active superadmin row, so concurrent changes to two different
+ * superadmins can't both pass the check
+ */
+async function assertNotLastSuperadmin(tx: Executor, adminId: string) {
+  const superadmins = await tx
+    .select({ id: admins.id })
+    .from(admins)
+    .where(and(eq(admins.role, "superadmin"), isNull(admins.disabledAt)))
+    .orderBy(admins.id) // Same lock order everywhere, so checks can't deadlock
+    .for("update")
+    .execute();
+
+  if (superadmins.length === 1 && superadmins[0].id === adminId) {
+    throw new LastSuperadminError();
+  }
+}
+
+/**
+ * Send the 409 response for a LastSuperadminError
+ */
+function sendLastSuperadmin(res: Response, error: LastSuperadminError) {
+  res.status(409).json({
+    success: false,
+    error: {
+      code: "LAST_SUPERADMIN",
+      message: error.message,
+    },
+  });
+}
+
+/**
+ * PUT /api/admin/users/me/password
+ * Change the signed-in admin's own password
+ * Body: { currentPassword: string, newPassword: string }
+ */
+router.put(
+  "/me/password",
+  loginLimiter,
+  verifyJWT,
+  passwordChangeValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id: adminId, username } = (req as any).admin;
+      const { currentPassword, newPassword } = req.body;
+
+      // Wrong current passwords count towards the login backoff, so a stolen
+      // access token can't be used to guess the password
+      const retryAfter = await getLoginRetryAfter(req.ip, username);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        res.status(429).json({
+          success: false,
+          error: {
+            code: "TOO_MANY_REQUESTS",
+            message: "Too many failed password attempts. Please try again later.",
+          },
+          retryAfter,
+        });
+        return;
+      }
+
+      const [admin] = await db
+        .select({ password: admins.password })
+        .from(admins)
+        .where(eq(admins.id, adminId))
+        .execute();
+
+      // Verify the current password before accepting a new one
+      if (!admin || !(await bcrypt.compare(currentPassword, admin.password))) {
+        await recordLoginFailure(req.ip, username);
+        res.status(401).json({
+          success: false,
+          error: {
+            code: "INVALID_PASSWORD",
+            message: "Current password is incorrect",
+          },
+        });
+        return;
+      }
+
+      await clearLoginFailures(username);
+
+      const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
+      await db.transaction(async (tx) => {
+        await tx
+          .update(admins)
+          .set({ password: hashedPassword })
+          .where(eq(admins.id, adminId))
+          .execute();
+
+        await recordAudit(tx, req, {
+          action: "admin.password_change",
+          targetType: "admin",
+          targetId: adminId,
+        });
+      });
+
+      // Sign out every other session; the current one stays logged in
+      await revokeAllSessions(adminId, "password_changed", (req as any).admin.sid);
+
+      res.json({
+        success: true,
+        message: "Password changed successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while changing the password",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/users
+ * List all admin accounts
+ */
+router.get(
+  "/",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rows = await db
+        .select(publicColumns)
+        .from(admins)
+        .orderBy(admins.username)
+        .execute();
+
+      res.json({
+        success: true,
+        data: rows,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching admins",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/users/lockouts
+ * List locked accounts and IPs/usernames currently blocked by login backoff
+ */
+router.get(
+  "/lockouts",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({
+        success: true,
+        data: await listLockouts(),
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching lockouts",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/users/lockouts/:key
+ * Clear a login backoff key, e.g. "ip:203.0.113.7" or "user:alice"
+ */
+router.delete(
+  "/lockouts/:key",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await clearLockoutKey(req.params.key))) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "No lockout found for this key",
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Lockout cleared successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while clearing the lockout",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users
+ * Create an admin account
+ * Body: { username: string, password: string, role: string }
+ */
+router.post(
+  "/",
+  requirePermission("admins:manage"),
+  adminCreateValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { username, password, role } = req.body;
+      const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+
+      const created = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(admins)
+          .values({ username, password: hashedPassword, role })
+          .returning(publicColumns)
+          .execute();
+
+        await recordAudit(tx, req, {
+          action: "admin.create",
+          targetType: "admin",
+          targetId: row.id,
+          after: { username: row.username, role: row.role },
+        });
+        return row;
+      });
+
+      res.status(201).json({
+        success: true,
+        data: created,
+        message: "Admin created successfully",
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: "USERNAME_TAKEN",
+            message: "An admin with this username already exists",
+          },
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while creating the admin",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/users/:id/role
+ * Change an admin's role
+ * Body: { role: string }
+ */
+router.put(
+  "/:id/role",
+  requirePermission("admins:manage"),
+  adminRoleValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (rejectSelfTarget(req, res, "change the role of")) return;
+
+      const updated = await updateAdmin(
+        req,
+        "admin.role_change",
+        { role: req.body.role },
+        req.body.role !== "superadmin"
+      );
+
+      if (!updated) return sendAdminNotFound(res);
+
+      res.json({
+        success: true,
+        data: updated,
+        message: "Admin role updated successfully",
+      });
+    } catch (error) {
+      if (error instanceof LastSuperadminError) return sendLastSuperadmin(res, error);
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while updating the admin role",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/disable
+ * Disable an admin account; existing tokens stop working immediately
+ */
+router.post(
+  "/:id/disable",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (rejectSelfTarget(req, res, "disable")) return;
+
+      const updated = await updateAdmin(
+        req,
+        "admin.disable",
+        { disabledAt: sql`coalesce(${admins.disabledAt}, now())` },
+        true
+      );
+
+      if (!updated) return sendAdminNotFound(res);
+
+      // Also revoke refresh tokens so the admin can't silently sign back in
+      await revokeAllSessions(req.params.id, "admin_disabled");
+
+      res.json({
+        success: true,
+        data: updated,
+        message: "Admin disabled successfully",
+      });
+    } catch (error) {
+      if (error instanceof LastSuperadminError) return sendLastSuperadmin(res, error);
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while disabling the admin",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/enable
+ * Re-enable a disabled admin account
+ */
+router.post(
+  "/:id/enable",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const updated = await updateAdmin(req, "admin.enable", {
+        disabledAt: null,
+      });
+
+      if (!updated) return sendAdminNotFound(res);
+
+      res.json({
+        success: true,
+        data: updated,
+        message: "Admin enabled successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while enabling the admin",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/unlock
+ * Clear an admin's failed login count and lockout
+ */
+router.post(
+  "/:id/unlock",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const unlocked = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .select(publicColumns)
+          .from(admins)
+          .where(eq(admins.id, req.params.id))
+          .for("update")
+          .execute();
+        if (!row) return false;
+
+        await unlockAdmin(req.params.id, tx);
+        await recordAudit(tx, req, {
+          action: "admin.unlock",
+          targetType: "admin",
+          targetId: req.params.id,
+          before: {
+            failedLoginAttempts: row.failedLoginAttempts,
+            lockedUntil: row.lockedUntil,
+          },
+          after: { failedLoginAttempts: 0, lockedUntil: null },
+        });
+        return true;
+      });
+
+      if (!unlocked) return sendAdminNotFound(res);
+
+      res.json({
+        success: true,
+        message: "Admin unlocked successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while unlocking the admin",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/reset-password
+ * Set a new password for another admin
+ * Body: { password: string }
+ */
+router.post(
+  "/:id/reset-password",
+  requirePermission("admins:manage"),
+  passwordResetValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Admins change their own password through /me/password, which checks the current one
+      if (rejectSelfTarget(req, res, "reset the password of")) return;
+
+      const hashedPassword = await bcrypt.hash(req.body.password, SALT_ROUNDS);
+      const updated = await updateAdmin(req, "admin.password_reset", {
+        password: hashedPassword,
+      });
+
+      if (!updated) return sendAdminNotFound(res);
+
+      // Sessions started with the old password are no longer trusted
+      await revokeAllSessions(req.params.id, "password_reset");
+
+      res.json({
+        success: true,
+        data: updated,
+        message: "Password reset successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while resetting the password",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:id/2fa/reset
+ * Turn off another admin's 2FA (e.g. lost authenticator and recovery codes)
+ */
+router.post(
+  "/:id/2fa/reset",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Admins disable their own 2FA through /api/auth/2fa/disable, which checks a code
+      if (rejectSelfTarget(req, res, "reset 2FA of")) return;
+
+      const target = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .select(publicColumns)
+          .from(admins)
+          .where(eq(admins.id, req.params.id))
+          .for("update")
+          .execute();
+        if (!row) return null;
+
+        await resetTwoFactor(req.params.id, tx);
+        await recordAudit(tx, req, {
+          action: "admin.two_factor_reset",
+          targetType: "admin",
+          targetId: req.params.id,
+          before: { totpEnabledAt: row.totpEnabledAt },
+          after: { totpEnabledAt: null },
+        });
+        return row;
+      });
+
+      if (!target) return sendAdminNotFound(res);
+
+      res.json({
+        success: true,
+        data: { ...target, totpEnabledAt: null },
+        message: "Two-factor authentication reset successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while resetting two-factor authentication",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/users/:id
+ * Permanently delete an admin account
+ */
+router.delete(
+  "/:id",
+  requirePermission("admins:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (rejectSelfTarget(req, res, "delete")) return;
+
+      const deleted = await db.transaction(async (tx) => {
+        await assertNotLastSuperadmin(tx, req.params.id);
+
+        const rows = await tx
+          .delete(admins)
+          .where(eq(admins.id, req.params.id))
+          .returning(publicColumns)
+          .execute();
+
+        if (rows.length) {
+          await recordAudit(tx, req, {
+            action: "admin.delete",
+            targetType: "admin",
+            targetId: req.params.id,
+            before: rows[0],
+          });
+        }
+        return rows;
+      });
+
+      if (!deleted.length) return sendAdminNotFound(res);
+
+      res.json({
+        success: true,
+        message: "Admin deleted successfully",
+      });
+    } catch (error) {
+      if (error instanceof LastSuperadminError) return sendLastSuperadmin(res, error);
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while deleting the admin",
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,486 @@
+// Admin routes for managing outgoing webhooks
+import { Router, Request, Response } from "express";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { webhooks, webhookDeliveries } from "../schema";
+import { requirePermission } from "../middleware/auth-middleware";
+import { webhookValidators, checkValidation } from "../middleware/validate";
+import { recordAudit } from "../utils/audit";
+import { enqueueDelivery, generateWebhookSecret, sendTestEvent } from "../webhooks";
+
+const router = Router();
+
+// Columns that are safe to return (never the signing secret)
+const publicColumns = {
+  id: webhooks.id,
+  url: webhooks.url,
+  events: webhooks.events,
+  description: webhooks.description,
+  active: webhooks.active,
+  createdBy: webhooks.createdBy,
+  createdAt: webhooks.createdAt,
+  updatedAt: webhooks.updatedAt,
+};
+
+/**
+ * Send a 404 response for an unknown webhook ID
+ */
+function sendWebhookNotFound(res: Response) {
+  res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message: "Webhook not found",
+    },
+  });
+}
+
+/**
+ * GET /api/admin/webhooks
+ * List webhook subscriptions
+ */
+router.get(
+  "/",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rows = await db
+        .select(publicColumns)
+        .from(webhooks)
+        .orderBy(webhooks.createdAt)
+        .execute();
+
+      res.json({
+        success: true,
+        data: rows,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching webhooks",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks
+ * Subscribe a URL to post lifecycle events
+ * Body: { url: string, events: string[], description?: string, active?: boolean }
+ *   - events: event names (see webhooks/index.ts), or ["*"] for all of them
+ * The response includes the signing secret; it is not shown again
+ */
+router.post(
+  "/",
+  requirePermission("webhooks:manage"),
+  webhookValidators(false) as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { url, events, description, active } = req.body;
+      const secret = generateWebhookSecret();
+
+      const webhook = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(webhooks)
+          .values({
+            url,
+            secret,
+            events,
+            description: description || null,
+            active: active ?? true,
+            createdBy: (req as any).admin.id,
+          })
+          .returning(publicColumns)
+          .execute();
+
+        await recordAudit(tx, req, {
+          action: "webhook.create",
+          targetType: "webhook",
+          targetId: created.id,
+          after: { url, events, active: created.active },
+        });
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { ...webhook, secret },
+        message: "Webhook created successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while creating the webhook",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id
+ * Get a single webhook subscription
+ */
+router.get(
+  "/:id",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const [webhook] = await db
+        .select(publicColumns)
+        .from(webhooks)
+        .where(eq(webhooks.id, req.params.id))
+        .execute();
+
+      if (!webhook) {
+        sendWebhookNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the webhook",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/webhooks/:id
+ * Update a webhook subscription
+ * Body: { url?: string, events?: string[], description?: string, active?: boolean }
+ */
+router.put(
+  "/:id",
+  requirePermission("webhooks:manage"),
+  webhookValidators(true) as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { url, events, description, active } = req.body;
+
+      const updated = await db.transaction(async (tx) => {
+        const [before] = await tx
+          .select(publicColumns)
+          .from(webhooks)
+          .where(eq(webhooks.id, req.params.id))
+          .for("update")
+          .execute();
+        if (!before) return null;
+
+        const [after] = await tx
+          .update(webhooks)
+          .set({
+            url,
+            events,
+            description: description === undefined ? undefined : description || null,
+            active,
+            updatedAt: new Date(),
+          })
+          .where(eq(webhooks.id, req.params.id))
+          .returning(publicColumns)
+          .execute();
+
+        await recordAudit(tx, req, {
+          action: "webhook.update",
+          targetType: "webhook",
+          targetId: req.params.id,
+          before,
+          after,
+        });
+        return after;
+      });
+
+      if (!updated) {
+        sendWebhookNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: updated,
+        message: "Webhook updated successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while updating the webhook",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/rotate-secret
+ * Replace the signing secret; the response includes the new one
+ * Deliveries already queued are signed with the new secret when sent
+ */
+router.post(
+  "/:id/rotate-secret",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const secret = generateWebhookSecret();
+
+      const rotated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(webhooks)
+          .set({ secret, updatedAt: new Date() })
+          .where(eq(webhooks.id, req.params.id))
+          .returning({ id: webhooks.id })
+          .execute();
+
+        if (row) {
+          await recordAudit(tx, req, {
+            action: "webhook.secret_rotate",
+            targetType: "webhook",
+            targetId: req.params.id,
+          });
+        }
+        return row;
+      });
+
+      if (!rotated) {
+        sendWebhookNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { id: rotated.id, secret },
+        message: "Webhook secret rotated successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while rotating the webhook secret",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/webhooks/:id
+ * Delete a webhook subscription and its delivery log
+ */
+router.delete(
+  "/:id",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .delete(webhooks)
+          .where(eq(webhooks.id, req.params.id))
+          .returning(publicColumns)
+          .execute();
+
+        if (row) {
+          await recordAudit(tx, req, {
+            action: "webhook.delete",
+            targetType: "webhook",
+            targetId: req.params.id,
+            before: row,
+          });
+        }
+        return row;
+      });
+
+      if (!deleted) {
+        sendWebhookNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Webhook deleted successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while deleting the webhook",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/test
+ * Send a "ping" event to the webhook right away (one attempt, no retries)
+ * Responds with the recorded delivery, including the receiver's answer
+ */
+router.post(
+  "/:id/test",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const [webhook] = await db
+        .select({ id: webhooks.id })
+        .from(webhooks)
+        .where(eq(webhooks.id, req.params.id))
+        .execute();
+
+      if (!webhook) {
+        sendWebhookNotFound(res);
+        return;
+      }
+
+      const delivery = await sendTestEvent(webhook.id);
+
+      res.json({
+        success: true,
+        data: delivery,
+        message:
+          delivery.status === "succeeded"
+            ? "Test event delivered successfully"
+            : "Test event delivery failed",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while sending the test event",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries
+ * List a webhook's deliveries, newest first
+ * Query parameters:
+ *   - status: pending, succeeded or failed
+ *   - page, limit: pagination (default 1 and 50, limit at most 200)
+ */
+router.get(
+  "/:id/deliveries",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const where = and(
+        eq(webhookDeliveries.webhookId, req.params.id),
+        req.query.status
+          ? eq(webhookDeliveries.status, String(req.query.status))
+          : undefined
+      );
+
+      const [rows, countResult] = await Promise.all([
+        db
+          .select()
+          .from(webhookDeliveries)
+          .where(where)
+          .orderBy(desc(webhookDeliveries.createdAt))
+          .limit(limit)
+          .offset((page - 1) * limit)
+          .execute(),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(webhookDeliveries)
+          .where(where)
+          .execute(),
+      ]);
+
+      const totalCount = countResult[0].count;
+
+      res.json({
+        success: true,
+        data: rows,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching webhook deliveries",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Queue another round of delivery attempts for an event, e.g. after a
+ * receiver outage outlasted the automatic retries
+ */
+router.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  requirePermission("webhooks:manage"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const [delivery] = await db
+        .update(webhookDeliveries)
+        .set({ status: "pending" })
+        .where(
+          and(
+            eq(webhookDeliveries.id, req.params.deliveryId),
+            eq(webhookDeliveries.webhookId, req.params.id)
+          )
+        )
+        .returning()
+        .execute();
+
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Delivery not found",
+          },
+        });
+        return;
+      }
+
+      await enqueueDelivery(delivery.id);
+
+      res.status(202).json({
+        success: true,
+        data: delivery,
+        message: "Delivery queued",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while queueing the delivery",
+        },
+      });
+    }
+  }
+);
+
+export default router;
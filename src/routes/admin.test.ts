@@ -0,0 +1,130 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  createTestAdmin,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import express from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { createSession, signAccessToken } from "../utils/sessions";
+import adminRoutes from "./admin";
+
+describe("admin blog routes", requiresDatabase, () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let token: string;
+  let blogId: string;
+
+  const request = async (method: string, path: string, body?: object) => {
+    const response = await fetch(`${baseUrl}/api/admin${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  before(async () => {
+    await migrateTestDatabase();
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/admin", adminRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    const adminId = await createTestAdmin();
+    const { sessionId } = await createSession(adminId, { ip: "127.0.0.1" });
+    token = signAccessToken({
+      id: adminId,
+      username: "test-admin",
+      role: "superadmin",
+      sid: sessionId,
+    });
+
+    const [blog] = await db
+      .insert(blogs)
+      .values({
+        title: "Hello",
+        slug: "hello",
+        content: "<p>World</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        status: "pending",
+      })
+      .returning()
+      .execute();
+    blogId = blog.id;
+  });
+
+  describe("revisions", () => {
+    for (const revision of ["abc", "0", "-1", "1.5", "99999999999"]) {
+      test(`reject revision "${revision}" with 400`, async () => {
+        const paths: [string, string][] = [
+          ["GET", `/blogs/${blogId}/revisions/${revision}`],
+          ["POST", `/blogs/${blogId}/revisions/${revision}/restore`],
+        ];
+        for (const [method, path] of paths) {
+          const { status, body } = await request(method, path);
+          assert.equal(status, 400, `${method} ${path}`);
+          assert.equal(body.error.code, "INVALID_INPUT");
+        }
+      });
+    }
+
+    test("answer 404 for a revision that doesn't exist", async () => {
+      const { status, body } = await request("GET", `/blogs/${blogId}/revisions/7`);
+
+      assert.equal(status, 404);
+      assert.equal(body.error.message, "Revision not found");
+    });
+  });
+
+  describe("PUT /blogs/:id/status", () => {
+    const invalidBodies: [string, object][] = [
+      ["an unknown status", { status: "draft" }],
+      ["non-string admin notes", { status: "approved", adminNotes: { html: "<b>" } }],
+      ["overlong admin notes", { status: "approved", adminNotes: "x".repeat(2001) }],
+      ["a publishAt that isn't a date", { status: "scheduled", publishAt: "tomorrow" }],
+    ];
+
+    for (const [description, body] of invalidBodies) {
+      test(`rejects ${description} with 400`, async () => {
+        const { status, body: response } = await request("PUT", `/blogs/${blogId}/status`, body);
+
+        assert.equal(status, 400);
+        assert.equal(response.error.code, "INVALID_INPUT");
+        const [blog] = await db.select().from(blogs).where(eq(blogs.id, blogId)).execute();
+        assert.equal(blog.status, "pending");
+      });
+    }
+
+    test("moves the post with valid input", async () => {
+      const { status, body } = await request("PUT", `/blogs/${blogId}/status`, {
+        status: "approved",
+        adminNotes: "Looks good",
+        publishAt: null,
+      });
+
+      assert.equal(status, 200);
+      assert.equal(body.data.status, "approved");
+      assert.equal(body.data.adminNotes, "Looks good");
+    });
+  });
+});
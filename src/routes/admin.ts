@@ -2,16 +2,58 @@
 import { Router, Request, Response } from "express";
 import { db, withClient } from "../db";
 import { blogs } from "../schema";
-import { eq, sql } from "drizzle-orm";
-import { verifyJWT } from "../middleware/auth-middleware";
-import { cache } from "../utils/cache";
+import { and, desc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { requirePermission } from "../middleware/auth-middleware";
+import { cache, invalidateBlogCache } from "../utils/cache";
+import {
+  taxonomyValidators,
+  contentUpdateValidators,
+  statusChangeValidators,
+  revisionParamValidators,
+  auditQueryValidators,
+  statsQueryValidators,
+  checkValidation,
+} from "../middleware/validate";
+import {
+  setBlogTags,
+  setBlogCategories,
+  getTaxonomyForBlogs,
+  withTaxonomy,
+} from "../utils/taxonomy";
+import { searchBlogs, InvalidCursorError } from "../utils/search";
+import {
+  applyContentChange,
+  contentSnapshot,
+  listRevisions,
+  getRevision,
+} from "../utils/revisions";
+import { diffText, diffStats, DiffMode } from "../utils/diff";
+import { renderContent, ContentFormat } from "../utils/markdown";
+import { purgeDate } from "../jobs/purge-trash";
+import { getViewAnalytics } from "../utils/views";
+import {
+  getDashboardStats,
+  parseStatsRange,
+  InvalidStatsRangeError,
+} from "../utils/stats";
+import { openReviewRound, listReviewRounds } from "../utils/submissions";
+import { notifyStatusChange, sendPendingDigest } from "../notifications";
+import { emitWebhookEvent, statusEvent, webhookPost } from "../webhooks";
+import { transitionBlog, InvalidTransitionError } from "../utils/lifecycle";
+import {
+  recordAudit,
+  changedFields,
+  listAuditEntries,
+  auditEntriesToCsv,
+  AuditFilters,
+} from "../utils/audit";
 
 const router = Router();
 
 // Cache TTL constants
 const STATS_CACHE_TTL = 60; // 1 minute cache for statistics
 
-// Individual routes with JWT verification
+// Individual routes with JWT verification and per-route permissions (see utils/roles.ts)
 
 /**
  * GET /api/admin/blogs
@@ -20,12 +62,44 @@ const STATS_CACHE_TTL = 60; // 1 minute cache for statistics
  *   - page: page number (default 1)
  *   - limit: number of posts per page (default 10)
  *   - status: filter by status (default 'pending')
+ *   - q: full-text search query; when present, results are ranked by relevance
+ *        across every status (unless status is given) and paginated with
+ *        cursor/limit instead of page/limit
  */
 router.get(
   "/blogs",
-  verifyJWT,
+  requirePermission("blogs:read"),
   async (req: Request, res: Response): Promise<void> => {
     try {
+      // Full-text search mode
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (query) {
+        if (query.length > 200) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: "INVALID_QUERY",
+              message: "Search query must be at most 200 characters",
+            },
+          });
+          return;
+        }
+
+        const { rows, nextCursor } = await searchBlogs({
+          query,
+          statuses: req.query.status ? [req.query.status as string] : undefined,
+          limit: Math.min(Number(req.query.limit) || 10, 50),
+          cursor: req.query.cursor as string | undefined,
+        });
+
+        res.json({
+          success: true,
+          data: await withTaxonomy(rows),
+          pagination: { nextCursor },
+        });
+        return;
+      }
+
       // Parse query parameters
       const page = Number(req.query.page) || 1;
       const limit = Number(req.query.limit) || 10;
@@ -37,7 +111,7 @@ router.get(
         db
           .select()
           .from(blogs)
-          .where(eq(blogs.status, status))
+          .where(and(eq(blogs.status, status), isNull(blogs.deletedAt)))
           .limit(limit)
           .offset(offset)
           .execute(),
@@ -45,7 +119,7 @@ router.get(
         db
           .select({ count: sql`count(*)` })
           .from(blogs)
-          .where(eq(blogs.status, status))
+          .where(and(eq(blogs.status, status), isNull(blogs.deletedAt)))
           .execute(),
       ]);
 
@@ -55,7 +129,7 @@ router.get(
       // Return results with pagination info
       res.json({
         success: true,
-        data: rows,
+        data: await withTaxonomy(rows),
         pagination: {
           page,
           limit,
@@ -64,6 +138,17 @@ router.get(
         },
       });
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_CURSOR",
+            message: error.message,
+          },
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -81,7 +166,7 @@ router.get(
  */
 router.get(
   "/blogs/:id",
-  verifyJWT,
+  requirePermission("blogs:read"),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const id = req.params.id;
@@ -106,10 +191,11 @@ router.get(
         return;
       }
 
-      // Return the blog
+      // Return the blog with its tags and categories
+      const [blog] = await withTaxonomy(row);
       res.json({
         success: true,
-        data: row[0],
+        data: blog,
       });
     } catch (error) {
       res.status(500).json({
@@ -125,41 +211,82 @@ router.get(
 
 /**
  * PUT /api/admin/blogs/:id/content
- * Update blog content
+ * Update blog content, title and/or summary
+ * Body: { content?: string, format?: string, title?: string, summary?: string }
+ *   - at least one of content, title and summary is required
+ *   - content is the source in the post's format (or in format, to convert the
+ *     post); Markdown is re-rendered and sanitized on save
+ * Changing the title gives the post a new slug; the old slug keeps redirecting
  */
 router.put(
   "/blogs/:id/content",
-  verifyJWT,
+  requirePermission("blogs:edit"),
+  contentUpdateValidators as any,
+  checkValidation as any,
   async (req: Request, res: Response): Promise<void> => {
     try {
       const id = req.params.id;
-      const { content } = req.body;
+      const { content, title, summary, format } = req.body;
 
       // Validate content
-      if (!content) {
+      if (!content && !title && summary === undefined) {
         res.status(400).json({
           success: false,
           error: {
             code: "INVALID_CONTENT",
-            message: "Content is required",
+            message: "Content, title or summary is required",
           },
         });
         return;
       }
 
-      // Update blog content
-      const updated = await db
-        .update(blogs)
-        .set({
-          content,
-          lastModified: new Date(),
-        })
-        .where(eq(blogs.id, id))
-        .returning()
-        .execute();
+      if (format && !content) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_CONTENT",
+            message: "Content is required when changing the format",
+          },
+        });
+        return;
+      }
+
+      // Update blog content (and slug, if the title changed), recording a revision
+      const adminId = (req as any).admin.id;
+      const result = await db.transaction(async (tx) => {
+        // Render the new source in the requested format, or the post's current one
+        let rendered: Awaited<ReturnType<typeof renderContent>> | undefined;
+        if (content) {
+          const [current] = await tx
+            .select({ format: blogs.format })
+            .from(blogs)
+            .where(eq(blogs.id, id))
+            .for("update")
+            .execute();
+          if (!current) return null;
+          rendered = await renderContent(format || current.format, content);
+        }
+
+        const change = await applyContentChange(
+          tx,
+          id,
+          { ...rendered, title: title || undefined, summary },
+          adminId
+        );
+        if (change) {
+          await recordAudit(tx, req, {
+            action: "blog.content_update",
+            targetType: "blog",
+            targetId: id,
+            before: change.previous,
+            after: contentSnapshot(change.blog),
+          });
+        }
+        return change;
+      });
 
       // Check if blog exists
-      if (!updated.length) {
+      if (!result) {
         res.status(404).json({
           success: false,
           error: {
@@ -170,10 +297,19 @@ router.put(
         return;
       }
 
+      // Drop cached copies so public lookups by ID and by either slug, and
+      // listings, refresh
+      await invalidateBlogCache(id);
+
+      emitWebhookEvent("post.updated", {
+        post: webhookPost(result.blog),
+        changes: Object.keys(changedFields(result.previous, contentSnapshot(result.blog)).after),
+      });
+
       // Return updated blog
       res.json({
         success: true,
-        data: updated[0],
+        data: result.blog,
         message: "Blog content updated successfully",
       });
     } catch (error) {
@@ -188,45 +324,469 @@ router.put(
   }
 );
 
+/**
+ * GET /api/admin/blogs/:id/revisions
+ * List a blog post's revisions, newest first (content omitted)
+ */
+router.get(
+  "/blogs/:id/revisions",
+  requirePermission("blogs:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const revisions = await listRevisions(req.params.id);
+
+      // Every post has at least its submission revision
+      if (!revisions.length) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found",
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: revisions,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching revisions",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/blogs/:id/revisions/diff
+ * Diff the title, summary and content of two revisions
+ * Query parameters:
+ *   - from: older revision number (required)
+ *   - to: newer revision number (required)
+ *   - mode: 'line' (default) or 'word'
+ */
+router.get(
+  "/blogs/:id/revisions/diff",
+  requirePermission("blogs:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      const from = Number(req.query.from);
+      const to = Number(req.query.to);
+      const mode: DiffMode = req.query.mode === "word" ? "word" : "line";
+
+      // Validate revision numbers
+      if (!Number.isInteger(from) || !Number.isInteger(to)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_INPUT",
+            message: "Query parameters 'from' and 'to' must be revision numbers",
+          },
+        });
+        return;
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        getRevision(id, from),
+        getRevision(id, to),
+      ]);
+
+      if (!fromRevision || !toRevision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Revision not found",
+          },
+        });
+        return;
+      }
+
+      // Diff each revisioned field
+      const changes: Record<string, unknown> = {};
+      for (const field of ["title", "summary", "content"] as const) {
+        const parts = diffText(
+          fromRevision[field] || "",
+          toRevision[field] || "",
+          mode
+        );
+        changes[field] = { parts, ...diffStats(parts, mode) };
+      }
+
+      res.json({
+        success: true,
+        data: {
+          from: fromRevision.revisionNumber,
+          to: toRevision.revisionNumber,
+          mode,
+          changes,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while diffing revisions",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/blogs/:id/revisions/:revision
+ * Get a single revision (including content) by revision number
+ */
+router.get(
+  "/blogs/:id/revisions/:revision",
+  requirePermission("blogs:read"),
+  revisionParamValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const revision = await getRevision(
+        req.params.id,
+        Number(req.params.revision)
+      );
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Revision not found",
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: revision,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the revision",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/blogs/:id/revisions/:revision/restore
+ * Restore a post's title, summary and content from an earlier revision
+ * The restore is recorded as a new revision; history is never rewritten
+ */
+router.post(
+  "/blogs/:id/revisions/:revision/restore",
+  requirePermission("blogs:edit"),
+  revisionParamValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      const revision = await getRevision(id, Number(req.params.revision));
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Revision not found",
+          },
+        });
+        return;
+      }
+
+      const adminId = (req as any).admin.id;
+      const result = await db.transaction(async (tx) => {
+        const change = await applyContentChange(
+          tx,
+          id,
+          {
+            title: revision.title,
+            summary: revision.summary,
+            content: revision.content,
+            format: revision.format as ContentFormat,
+            source: revision.source,
+          },
+          adminId,
+          revision.id
+        );
+        if (change) {
+          await recordAudit(tx, req, {
+            action: "blog.revision_restore",
+            targetType: "blog",
+            targetId: id,
+            before: change.previous,
+            after: {
+              ...contentSnapshot(change.blog),
+              restoredRevision: revision.revisionNumber,
+            },
+          });
+        }
+        return change;
+      });
+
+      // The post may have been deleted in the meantime
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found",
+          },
+        });
+        return;
+      }
+
+      // Drop cached copies so public lookups by ID and by either slug, and
+      // listings, refresh
+      await invalidateBlogCache(id);
+
+      emitWebhookEvent("post.updated", {
+        post: webhookPost(result.blog),
+        changes: Object.keys(changedFields(result.previous, contentSnapshot(result.blog)).after),
+        restoredRevision: revision.revisionNumber,
+      });
+
+      res.json({
+        success: true,
+        data: result.blog,
+        message: `Blog post restored to revision ${revision.revisionNumber}`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while restoring the revision",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/blogs/:id/review-rounds
+ * List the "request changes" rounds of a post, oldest first
+ */
+router.get(
+  "/blogs/:id/review-rounds",
+  requirePermission("blogs:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({
+        success: true,
+        data: await listReviewRounds(req.params.id),
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching review rounds",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/blogs/:id/analytics
+ * Views per day and top referring sites for a post
+ * Query parameters:
+ *   - days: how many days back to report, including today (default 30, max 365)
+ * Views are counted in batches, so the last few seconds may not show yet;
+ * views from before daily counts were kept are only in blog.views
+ */
+router.get(
+  "/blogs/:id/analytics",
+  requirePermission("stats:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+      const analytics = await getViewAnalytics(req.params.id, days);
+
+      if (!analytics) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found",
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: analytics,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching blog analytics",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/blogs/:id/taxonomy
+ * Replace the tags and/or categories of a blog post
+ * Body: { tags?: string[], categories?: string[] } - omitted fields are left unchanged
+ */
+router.put(
+  "/blogs/:id/taxonomy",
+  requirePermission("blogs:edit"),
+  taxonomyValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      const { tags, categories } = req.body;
+
+      const updated = await db.transaction(async (tx) => {
+        const touched = await tx
+          .update(blogs)
+          .set({ lastModified: new Date() })
+          .where(and(eq(blogs.id, id), isNull(blogs.deletedAt)))
+          .returning()
+          .execute();
+        if (!touched.length) return null;
+
+        const before = (await getTaxonomyForBlogs([id], tx)).get(id);
+        const after = { ...before };
+        if (tags) after.tags = await setBlogTags(tx, id, tags);
+        if (categories) after.categories = await setBlogCategories(tx, id, categories);
+
+        await recordAudit(tx, req, {
+          action: "blog.taxonomy_update",
+          targetType: "blog",
+          targetId: id,
+          before,
+          after,
+        });
+        return touched[0];
+      });
+
+      // Check if blog exists
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found",
+          },
+        });
+        return;
+      }
+
+      // Cached copies show the old tags and categories
+      await invalidateBlogCache(id);
+
+      // Return the updated taxonomy
+      const taxonomy = await getTaxonomyForBlogs([id]);
+      emitWebhookEvent("post.updated", {
+        post: { ...webhookPost(updated), ...taxonomy.get(id) },
+        changes: [tags && "tags", categories && "categories"].filter(Boolean),
+      });
+
+      res.json({
+        success: true,
+        data: { id, ...taxonomy.get(id) },
+        message: "Blog taxonomy updated successfully",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while updating blog taxonomy",
+        },
+      });
+    }
+  }
+);
+
 /**
  * PUT /api/admin/blogs/:id/status
- * Update blog status (approve or reject)
+ * Move a blog post through its lifecycle (see utils/lifecycle.ts)
+ * Body: { status: string, adminNotes?: string, publishAt?: string }
+ *   - publishAt (ISO 8601, in the future) is required when status is "scheduled"
+ *   - adminNotes is required for "changes_requested": it is the feedback shown
+ *     to the author, and the response includes a private edit token for them
+ * Disallowed transitions are rejected with 409 INVALID_TRANSITION
  */
 router.put(
   "/blogs/:id/status",
-  verifyJWT,
+  requirePermission("blogs:moderate"),
+  statusChangeValidators as any,
+  checkValidation as any,
   async (req: Request, res: Response): Promise<void> => {
     try {
       const id = req.params.id;
-      const { status, adminNotes } = req.body;
+      const { status, adminNotes, publishAt } = req.body;
 
-      // Validate status
-      if (!["approved", "rejected"].includes(status)) {
+      if (status === "changes_requested" && !adminNotes?.trim()) {
         res.status(400).json({
           success: false,
           error: {
-            code: "INVALID_STATUS",
-            message: 'Status must be either "approved" or "rejected"',
+            code: "FEEDBACK_REQUIRED",
+            message: "adminNotes with feedback for the author is required when requesting changes",
           },
         });
         return;
       }
 
+      const publishAtDate = publishAt ? new Date(publishAt) : undefined;
+
       // Update blog status
-      const updated = await db
-        .update(blogs)
-        .set({
-          status,
-          adminNotes: adminNotes || null,
-          approvalDate: status === "approved" ? new Date() : null,
-          lastModified: new Date(),
-        })
-        .where(eq(blogs.id, id))
-        .returning()
-        .execute();
+      const result = await db.transaction(async (tx) => {
+        const change = await transitionBlog(tx, id, status, {
+          adminNotes,
+          publishAt: publishAtDate,
+        });
+        if (!change) return null;
+
+        // Requesting changes opens a review round with a private edit link
+        const review =
+          status === "changes_requested"
+            ? await openReviewRound(tx, id, adminNotes.trim(), (req as any).admin.id)
+            : null;
+
+        await recordAudit(tx, req, {
+          action: "blog.status_change",
+          targetType: "blog",
+          targetId: id,
+          before: change.previous,
+          after: {
+            status: change.blog.status,
+            adminNotes: change.blog.adminNotes,
+            publishAt: change.blog.publishAt,
+          },
+        });
+        return { ...change, review };
+      });
 
       // Check if blog exists
-      if (!updated.length) {
+      if (!result) {
         res.status(404).json({
           success: false,
           error: {
@@ -237,15 +797,57 @@ router.put(
         return;
       }
 
+      // Public lookups and listings only show published posts, so drop any cached copy
+      await invalidateBlogCache(id);
+
+      // Let the author know (queued; a mail problem never fails the request)
+      notifyStatusChange(
+        result.blog,
+        result.previous.status,
+        result.review && {
+          feedback: result.review.round.feedback,
+          editToken: result.review.token,
+          expiresAt: result.review.round.expiresAt,
+        }
+      );
+
+      const event = statusEvent(result.blog.status);
+      if (event && result.blog.status !== result.previous.status) {
+        emitWebhookEvent(event, {
+          post: webhookPost(result.blog),
+          previousStatus: result.previous.status,
+          ...(result.review && { feedback: result.review.round.feedback }),
+        });
+      }
+
       // Return updated blog
       res.json({
         success: true,
-        data: updated[0],
-        message: `Blog post ${
-          status === "approved" ? "approved" : "rejected"
-        } successfully`,
+        data: result.blog,
+        ...(result.review && {
+          review: {
+            roundNumber: result.review.round.roundNumber,
+            editToken: result.review.token,
+            expiresAt: result.review.round.expiresAt,
+          },
+        }),
+        message: `Blog post status changed to ${status}`,
       });
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: "INVALID_TRANSITION",
+            message: error.message,
+            from: error.from,
+            to: error.to,
+            allowed: error.allowed,
+          },
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -259,24 +861,40 @@ router.put(
 
 /**
  * DELETE /api/admin/blogs/:id
- * Delete a blog post
+ * Move a blog post to the trash
+ * Trashed posts are hidden everywhere except the trash listing and are purged
+ * for good after TRASH_RETENTION_DAYS (see jobs/purge-trash.ts)
  */
 router.delete(
   "/blogs/:id",
-  verifyJWT,
+  requirePermission("blogs:delete"),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const id = req.params.id;
+      const adminId = (req as any).admin.id;
 
-      // Delete blog
-      const deleted = await db
-        .delete(blogs)
-        .where(eq(blogs.id, id))
-        .returning()
-        .execute();
+      const trashed = await db.transaction(async (tx) => {
+        const rows = await tx
+          .update(blogs)
+          .set({ deletedAt: new Date(), deletedBy: adminId })
+          .where(and(eq(blogs.id, id), isNull(blogs.deletedAt)))
+          .returning()
+          .execute();
 
-      // Check if blog exists
-      if (!deleted.length) {
+        if (rows.length) {
+          await recordAudit(tx, req, {
+            action: "blog.delete",
+            targetType: "blog",
+            targetId: id,
+            before: { deletedAt: null },
+            after: { deletedAt: rows[0].deletedAt },
+          });
+        }
+        return rows;
+      });
+
+      // Check if blog exists (and isn't already in the trash)
+      if (!trashed.length) {
         res.status(404).json({
           success: false,
           error: {
@@ -287,10 +905,20 @@ router.delete(
         return;
       }
 
+      // Drop cached copies so the post disappears from public lookups and listings
+      await invalidateBlogCache(id);
+
+      emitWebhookEvent("post.deleted", { post: webhookPost(trashed[0]) });
+
       // Return success
       res.json({
         success: true,
-        message: "Blog post deleted successfully",
+        data: {
+          id,
+          deletedAt: trashed[0].deletedAt,
+          purgeAfter: purgeDate(trashed[0].deletedAt),
+        },
+        message: "Blog post moved to trash",
       });
     } catch (error) {
       res.status(500).json({
@@ -305,53 +933,251 @@ router.delete(
 );
 
 /**
- * GET /api/admin/stats
- * Get blog statistics with caching
+ * GET /api/admin/trash
+ * List trashed blog posts, most recently deleted first
+ * Query parameters:
+ *   - page: page number (default 1)
+ *   - limit: number of posts per page (default 10)
  */
 router.get(
-  "/stats",
-  verifyJWT,
+  "/trash",
+  requirePermission("blogs:read"),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      // Try to get stats from cache first
-      const cacheKey = "blog_stats";
-      const cachedStats = cache.get(cacheKey);
+      const page = Number(req.query.page) || 1;
+      const limit = Math.min(Number(req.query.limit) || 10, 100);
+      const offset = (page - 1) * limit;
 
-      if (cachedStats) {
-        // Return cached stats if available
-        res.json({
-          success: true,
-          data: cachedStats,
-          source: "cache",
+      const [rows, countResult] = await Promise.all([
+        db
+          .select({
+            id: blogs.id,
+            title: blogs.title,
+            slug: blogs.slug,
+            status: blogs.status,
+            authorName: blogs.authorName,
+            deletedAt: blogs.deletedAt,
+            deletedBy: blogs.deletedBy,
+          })
+          .from(blogs)
+          .where(isNotNull(blogs.deletedAt))
+          .orderBy(desc(blogs.deletedAt))
+          .limit(limit)
+          .offset(offset)
+          .execute(),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(blogs)
+          .where(isNotNull(blogs.deletedAt))
+          .execute(),
+      ]);
+
+      const totalCount = countResult[0].count;
+
+      res.json({
+        success: true,
+        data: rows.map((row) => ({
+          ...row,
+          purgeAfter: purgeDate(row.deletedAt),
+        })),
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the trash",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/trash/:id/restore
+ * Take a blog post out of the trash, back to the status it had before
+ */
+router.post(
+  "/trash/:id/restore",
+  requirePermission("blogs:delete"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+
+      const restored = await db.transaction(async (tx) => {
+        const [previous] = await tx
+          .select({ deletedAt: blogs.deletedAt })
+          .from(blogs)
+          .where(and(eq(blogs.id, id), isNotNull(blogs.deletedAt)))
+          .for("update")
+          .execute();
+        if (!previous) return null;
+
+        const [row] = await tx
+          .update(blogs)
+          .set({ deletedAt: null, deletedBy: null, lastModified: new Date() })
+          .where(eq(blogs.id, id))
+          .returning()
+          .execute();
+
+        await recordAudit(tx, req, {
+          action: "blog.restore",
+          targetType: "blog",
+          targetId: id,
+          before: previous,
+          after: { deletedAt: null },
+        });
+        return row;
+      });
+
+      if (!restored) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found in trash",
+          },
         });
         return;
       }
 
-      // Cache miss - get stats from database using withClient for safer queries
-      let stats;
-      try {
-        // Use withClient to ensure proper connection release
-        await withClient(async (client) => {
-          const result = await client.query(
-            "SELECT status, COUNT(*) FROM blogs GROUP BY status"
-          );
-          stats = result.rows;
+      // A published post reappears on the public site
+      await invalidateBlogCache(id);
+
+      emitWebhookEvent("post.restored", { post: webhookPost(restored) });
+
+      res.json({
+        success: true,
+        data: restored,
+        message: "Blog post restored from trash",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while restoring the blog post",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/trash/:id
+ * Permanently delete a trashed blog post without waiting for the purge
+ */
+router.delete(
+  "/trash/:id",
+  requirePermission("blogs:delete"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+
+      // Delete blog, keeping a snapshot of it in the audit log
+      const deleted = await db.transaction(async (tx) => {
+        const rows = await tx
+          .delete(blogs)
+          .where(and(eq(blogs.id, id), isNotNull(blogs.deletedAt)))
+          .returning()
+          .execute();
+
+        if (rows.length) {
+          await recordAudit(tx, req, {
+            action: "blog.purge",
+            targetType: "blog",
+            targetId: id,
+            before: rows[0],
+          });
+        }
+        return rows;
+      });
+
+      if (!deleted.length) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found in trash",
+          },
         });
-      } catch (dbError) {
-        console.error("Database error while fetching statistics:", dbError);
-        throw new Error("Database connection error");
+        return;
       }
 
-      // Cache the stats
-      cache.set(cacheKey, stats, STATS_CACHE_TTL);
+      emitWebhookEvent("post.purged", { post: webhookPost(deleted[0]) });
+
+      res.json({
+        success: true,
+        message: "Blog post permanently deleted",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while deleting the blog post",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/stats
+ * Dashboard statistics for a date range, cached per range
+ * Query parameters:
+ *   - from, to: ISO 8601 dates, whole UTC days inclusive (default the last 30 days, at most 366)
+ *   - bucket: "day" or "week" (weeks start on Monday) for the timeline (default day)
+ * byStatus and pendingQueue describe the current state and ignore the range
+ */
+router.get(
+  "/stats",
+  requirePermission("stats:read"),
+  statsQueryValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const range = parseStatsRange(
+        req.query.from as string | undefined,
+        req.query.to as string | undefined,
+        req.query.bucket as string | undefined
+      );
+
+      // On a miss, query the database (once, however many requests miss together)
+      let source = "cache";
+      const stats = await cache.wrap(
+        `blog_stats:${range.from}:${range.to}:${range.bucket}`,
+        () => {
+          source = "database";
+          return getDashboardStats(range);
+        },
+        { ttlSeconds: STATS_CACHE_TTL }
+      );
 
-      // Return stats from database
       res.json({
         success: true,
         data: stats,
-        source: "database",
+        source,
       });
     } catch (error) {
+      if (error instanceof InvalidStatsRangeError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_RANGE",
+            message: error.message,
+          },
+        });
+        return;
+      }
+
+      console.error("Database error while fetching statistics:", error);
       res.status(500).json({
         success: false,
         error: {
@@ -363,5 +1189,121 @@ router.get(
   }
 );
 
+/**
+ * GET /api/admin/cache/stats
+ * Cache hit/miss counters since the worker started
+ * Counters are kept per process: in a cluster this is the worker that
+ * happened to answer (see "pid")
+ */
+router.get(
+  "/cache/stats",
+  requirePermission("stats:read"),
+  async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: cache.stats(),
+    });
+  }
+);
+
+/**
+ * POST /api/admin/notifications/digest
+ * Email the digest of posts awaiting review to ADMIN_DIGEST_RECIPIENTS now
+ */
+router.post(
+  "/notifications/digest",
+  requirePermission("blogs:moderate"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { pendingCount, sent } = await sendPendingDigest();
+
+      res.json({
+        success: true,
+        data: { pendingCount, sent },
+        message: sent
+          ? "Pending digest queued for delivery"
+          : "No digest sent (no pending posts or no recipients configured)",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while sending the digest",
+        },
+      });
+    }
+  }
+);
+
+// Most rows a single CSV export may contain
+const AUDIT_EXPORT_LIMIT = 10000;
+
+/**
+ * GET /api/admin/audit
+ * List admin audit log entries, newest first
+ * Query parameters:
+ *   - adminId, action, targetType, targetId: exact-match filters
+ *   - from, to: ISO 8601 date range (inclusive)
+ *   - page, limit: pagination (default 1 and 50, limit at most 200)
+ *   - format: "csv" to download matching entries (up to 10000) as CSV
+ */
+router.get(
+  "/audit",
+  requirePermission("audit:read"),
+  auditQueryValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters: AuditFilters = {
+        adminId: req.query.adminId as string | undefined,
+        action: req.query.action as string | undefined,
+        targetType: req.query.targetType as string | undefined,
+        targetId: req.query.targetId as string | undefined,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+      };
+
+      if (req.query.format === "csv") {
+        const { rows } = await listAuditEntries(filters, AUDIT_EXPORT_LIMIT);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+        );
+        res.send(auditEntriesToCsv(rows));
+        return;
+      }
+
+      const page = Number(req.query.page) || 1;
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      const { rows, total: totalCount } = await listAuditEntries(
+        filters,
+        limit,
+        (page - 1) * limit
+      );
+
+      res.json({
+        success: true,
+        data: rows,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the audit log",
+        },
+      });
+    }
+  }
+);
+
 export default router;
  
\ No newline at end of file
@@ -0,0 +1,108 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import express from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { openReviewRound } from "../utils/submissions";
+import blogRoutes from "./blog";
+
+describe("PUT /api/blogs/submissions/:token", requiresDatabase, () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let blogId: string;
+  let token: string;
+
+  const resubmit = async (body: object) => {
+    const response = await fetch(`${baseUrl}/api/blogs/submissions/${token}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  const storedBlog = async () =>
+    (await db.select().from(blogs).where(eq(blogs.id, blogId)).execute())[0];
+
+  before(async () => {
+    await migrateTestDatabase();
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/blogs", blogRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+
+    const [blog] = await db
+      .insert(blogs)
+      .values({
+        title: "Hello",
+        slug: "hello",
+        content: "<p>World</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        status: "changes_requested",
+      })
+      .returning()
+      .execute();
+    blogId = blog.id;
+    ({ token } = await db.transaction((tx) =>
+      openReviewRound(tx, blogId, "Please add a summary", null)
+    ));
+  });
+
+  test("accepts a revision without the author's name or email", async () => {
+    const { status, body } = await resubmit({
+      title: "Hello again",
+      content: "<p>World, revised</p>",
+      summary: "A greeting",
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.data.status, "pending");
+    const blog = await storedBlog();
+    assert.equal(blog.title, "Hello again");
+    assert.equal(blog.authorName, "Sam");
+  });
+
+  test("ignores a new email address but takes a new display name", async () => {
+    const { status } = await resubmit({
+      title: "Hello",
+      content: "<p>World</p>",
+      authorName: "Samantha",
+      authorEmail: "someone-else@example.com",
+    });
+
+    assert.equal(status, 200);
+    const blog = await storedBlog();
+    assert.equal(blog.authorName, "Samantha");
+    assert.equal(blog.authorEmail, "sam@example.com");
+  });
+
+  test("still validates the post fields", async () => {
+    const { status, body } = await resubmit({ title: "", content: "<p>World</p>" });
+
+    assert.equal(status, 400);
+    assert.equal(body.error.code, "INVALID_INPUT");
+    assert.equal((await storedBlog()).status, "changes_requested");
+  });
+});
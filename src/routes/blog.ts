@@ -1,12 +1,53 @@
 // Public blog routes
 import { Router, Request, Response } from "express";
-import { db } from "../db";
+import { db, isUniqueViolation } from "../db";
 import { blogs } from "../schema";
-import { eq, lt, desc, sql, and } from "drizzle-orm";
+import { eq, lt, desc, and, inArray, isNull, SQL } from "drizzle-orm";
 import { submitLimiter } from "../middleware/rateLimiter";
-import { submitValidators, checkValidation } from "../middleware/validate";
-import { sanitize } from "../utils/sanitize";
-import { cache } from "../utils/cache";
+import {
+  submitValidators,
+  resubmitValidators,
+  checkValidation,
+} from "../middleware/validate";
+import { renderContent } from "../utils/markdown";
+import {
+  cache,
+  getBlogPostCacheKey,
+  getBlogSlugCacheKey,
+  blogCacheTag,
+  BLOG_LIST_TAG,
+} from "../utils/cache";
+import {
+  setBlogTags,
+  withTaxonomy,
+  blogIdsWithTag,
+  blogIdsInCategory,
+} from "../utils/taxonomy";
+import { searchBlogs, InvalidCursorError } from "../utils/search";
+import {
+  generateUniqueSlug,
+  resolveSlug,
+  SlugResolution,
+} from "../utils/blog-slugs";
+import { recordRevision, applyContentChange } from "../utils/revisions";
+import { PUBLIC_STATUS, transitionBlog } from "../utils/lifecycle";
+import {
+  findEditableSubmission,
+  listReviewRounds,
+  closeReviewRound,
+  EditTokenError,
+} from "../utils/submissions";
+import { notifySubmissionReceived } from "../notifications";
+import { emitWebhookEvent, webhookPost } from "../webhooks";
+import {
+  renderFeed,
+  feedETag,
+  FEED_FORMATS,
+  FEED_CONTENT_TYPES,
+  FeedFormat,
+} from "../utils/feeds";
+import { config } from "../config";
+import { recordView } from "../utils/views";
 import crypto from "crypto";
 
 const router = Router();
@@ -14,6 +55,10 @@ const router = Router();
 // Cache TTL constants
 const LIST_CACHE_TTL = 30; // 30 seconds cache for listings
 const POST_CACHE_TTL = 60; // 1 minute cache for single posts
+const FEED_CACHE_TTL = 300; // 5 minutes cache for feeds
+
+// Posts included in each feed
+const FEED_ITEM_LIMIT = 20;
 
 // Type definitions for cached data
 type BlogListCacheData = {
@@ -21,6 +66,12 @@ type BlogListCacheData = {
   nextCursor: string | null;
 };
 
+type FeedCacheData = {
+  body: string;
+  etag: string;
+  lastModified: Date | null;
+};
+
 type BlogPostCacheData = {
   id: string;
   views: number;
@@ -33,25 +84,90 @@ type BlogPostCacheData = {
 function getBlogListCacheKey(
   limit: number,
   cursor?: string,
-  sort?: string
+  sort?: string,
+  tag?: string,
+  category?: string
+): string {
+  return `blog_list_${limit}_${cursor || "none"}_${sort || "default"}_${
+    tag || "any"
+  }_${category || "any"}`;
+}
+
+/**
+ * Get a cache key for a rendered feed
+ */
+function getFeedCacheKey(format: string, tag?: string, author?: string): string {
+  return `blog_feed_${format}_${tag || "any"}_${author || "any"}`;
+}
+
+/**
+ * Get a cache key for search results
+ */
+function getBlogSearchCacheKey(
+  query: string,
+  limit: number,
+  cursor?: string
 ): string {
-  return `blog_list_${limit}_${cursor || "none"}_${sort || "default"}`;
+  return `blog_search_${limit}_${cursor || "none"}_${query}`;
 }
 
 /**
- * Get a cache key for a single blog post
+ * Options for listing published posts
  */
-function getBlogPostCacheKey(id: string): string {
-  return `blog_post_${id}`;
+interface PublishedPostsQuery {
+  limit: number;
+  cursor?: string; // submissionDate of the last post on the previous page
+  sort?: "submissionDate" | "views";
+  tag?: string; // Tag slug
+  category?: string; // Category slug
+  author?: string; // Exact author name
+}
+
+/**
+ * Fetch published posts (with tags and categories), newest first
+ * Shared by the listing and the feeds so both show exactly the same posts
+ */
+async function queryPublishedPosts(options: PublishedPostsQuery) {
+  const conditions: SQL[] = [
+    eq(blogs.status, PUBLIC_STATUS),
+    isNull(blogs.deletedAt),
+  ];
+  if (options.cursor) conditions.push(lt(blogs.submissionDate, new Date(options.cursor)));
+  if (options.tag) conditions.push(inArray(blogs.id, blogIdsWithTag(options.tag)));
+  if (options.category) {
+    conditions.push(inArray(blogs.id, blogIdsInCategory(options.category)));
+  }
+  if (options.author) conditions.push(eq(blogs.authorName, options.author));
+
+  const rows = await withTaxonomy(
+    await db
+      .select()
+      .from(blogs)
+      .where(and(...conditions))
+      .orderBy(
+        options.sort === "views" ? desc(blogs.views) : desc(blogs.submissionDate)
+      )
+      .limit(options.limit)
+      .execute()
+  );
+
+  // Get next cursor for pagination
+  const nextCursor = rows.length
+    ? rows[rows.length - 1].submissionDate.toISOString()
+    : null;
+
+  return { rows, nextCursor };
 }
 
 /**
  * GET /api/blogs
- * Get approved blog posts with pagination and caching
+ * Get published blog posts with pagination and caching
  * Query parameters:
  *   - limit: number of posts to return (default 10, max 50)
  *   - cursor: timestamp to start from (for pagination)
  *   - sort: field to sort by (default by submissionDate, can be 'views')
+ *   - tag: only include posts with this tag slug
+ *   - category: only include posts in this category slug
  */
 router.get("/", async (req: Request, res: Response): Promise<void> => {
   try {
@@ -59,163 +175,494 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
     const limit = Math.min(Number(req.query.limit) || 10, 50);
     const cursor = req.query.cursor as string | undefined;
     const sortField = req.query.sort === "views" ? "views" : "submissionDate";
+    const tag = (req.query.tag as string) || undefined;
+    const category = (req.query.category as string) || undefined;
 
     // Try to get from cache first
-    const cacheKey = getBlogListCacheKey(limit, cursor, sortField);
-    const cachedData = cache.get<BlogListCacheData>(cacheKey);
+    const cacheKey = getBlogListCacheKey(
+      limit,
+      cursor,
+      sortField,
+      tag,
+      category
+    );
+    // On a miss, query the database (once, however many requests miss together)
+    let source = "cache";
+    const { rows, nextCursor } = await cache.wrap<BlogListCacheData>(
+      cacheKey,
+      () => {
+        source = "database";
+        return queryPublishedPosts({
+          limit,
+          cursor,
+          sort: sortField,
+          tag,
+          category,
+        });
+      },
+      { ttlSeconds: LIST_CACHE_TTL, tags: [BLOG_LIST_TAG] }
+    );
 
-    if (cachedData) {
-      // Return cached data
-      res.json({
-        success: true,
-        data: cachedData.rows,
-        pagination: { nextCursor: cachedData.nextCursor },
-        source: "cache",
+    // Return results
+    res.json({
+      success: true,
+      data: rows,
+      pagination: { nextCursor },
+      source,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "An error occurred while fetching blogs",
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/blogs/search
+ * Full-text search over published blog posts, ordered by relevance
+ * Query parameters:
+ *   - q: search query (required, max 200 characters; supports "phrases" and -exclusions)
+ *   - limit: number of posts to return (default 10, max 50)
+ *   - cursor: nextCursor from the previous page
+ */
+router.get("/search", async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Parse query parameters
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const limit = Math.min(Number(req.query.limit) || 10, 50);
+    const cursor = req.query.cursor as string | undefined;
+
+    // Validate query
+    if (!query || query.length > 200) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_QUERY",
+          message: "Search query is required and must be at most 200 characters",
+        },
       });
       return;
     }
 
-    // Cache miss - query database
-    // Build and execute query with conditions
-    const conditions = cursor
-      ? and(
-          eq(blogs.status, "approved"),
-          lt(blogs.submissionDate, new Date(cursor))
-        )
-      : eq(blogs.status, "approved");
-
-    const rows = await db
-      .select()
-      .from(blogs)
-      .where(conditions)
-      .orderBy(
-        sortField === "views" ? desc(blogs.views) : desc(blogs.submissionDate)
-      )
-      .limit(limit)
-      .execute();
-
-    // Get next cursor for pagination
-    const nextCursor = rows.length
-      ? rows[rows.length - 1].submissionDate.toISOString()
-      : null;
-
-    // Cache the result
-    const cacheData: BlogListCacheData = { rows, nextCursor };
-    cache.set(cacheKey, cacheData, LIST_CACHE_TTL);
+    // Try to get from cache first
+    const cacheKey = getBlogSearchCacheKey(query, limit, cursor);
+    let source = "cache";
+    const { rows, nextCursor } = await cache.wrap<BlogListCacheData>(
+      cacheKey,
+      async () => {
+        // Cache miss - run the search
+        source = "database";
+        const found = await searchBlogs({
+          query,
+          statuses: [PUBLIC_STATUS],
+          limit,
+          cursor,
+        });
+        return { rows: await withTaxonomy(found.rows), nextCursor: found.nextCursor };
+      },
+      { ttlSeconds: LIST_CACHE_TTL, tags: [BLOG_LIST_TAG] }
+    );
 
-    // Return results
     res.json({
       success: true,
       data: rows,
       pagination: { nextCursor },
-      source: "database",
+      source,
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_CURSOR",
+          message: error.message,
+        },
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: {
         code: "SERVER_ERROR",
-        message: "An error occurred while fetching blogs",
+        message: "An error occurred while searching blogs",
       },
     });
   }
 });
 
 /**
- * GET /api/blogs/:id
- * Get a single blog post by ID and increment view count
- * Uses caching with cache invalidation on view count updates
+ * GET /api/blogs/feed.rss, /api/blogs/feed.atom, /api/blogs/feed.json
+ * Syndication feed of the latest published posts
+ * Query parameters:
+ *   - tag: only include posts with this tag slug
+ *   - author: only include posts by this author name
+ * Supports conditional requests (If-None-Match / If-Modified-Since)
  */
-router.get("/:id", async (req: Request, res: Response): Promise<void> => {
-  const id = req.params.id;
+router.get("/feed.:format", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = req.params.format as FeedFormat;
+    if (!FEED_FORMATS.includes(format)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: `Feed format must be one of: ${FEED_FORMATS.join(", ")}`,
+        },
+      });
+      return;
+    }
+
+    const tag = (req.query.tag as string) || undefined;
+    const author = (req.query.author as string) || undefined;
+
+    // Render on a cache miss (once, however many requests miss together)
+    const cacheKey = getFeedCacheKey(format, tag, author);
+    const feed = await cache.wrap<FeedCacheData>(
+      cacheKey,
+      async () => {
+        const { rows } = await queryPublishedPosts({ limit: FEED_ITEM_LIMIT, tag, author });
+
+        // The feed changes whenever one of its posts does
+        const lastModified = rows.length
+          ? new Date(Math.max(...rows.map((row) => row.lastModified.getTime())))
+          : null;
+
+        const query = new URLSearchParams();
+        if (tag) query.set("tag", tag);
+        if (author) query.set("author", author);
+        // From config, not the request's Host header: the feed is cached and
+        // shared by every client
+        const feedUrl = `${config.siteUrl}${req.baseUrl}/feed.${format}${
+          query.toString() ? `?${query}` : ""
+        }`;
+
+        const filters = [tag && `tagged "${tag}"`, author && `by ${author}`].filter(Boolean);
+        const body = renderFeed(
+          format,
+          {
+            title: filters.length ? `${config.siteName}: posts ${filters.join(" ")}` : config.siteName,
+            description: `Latest posts${filters.length ? ` ${filters.join(" ")}` : ""} from ${config.siteName}`,
+            siteUrl: config.siteUrl,
+            feedUrl,
+            updated: lastModified || new Date(0),
+          },
+          rows
+        );
+
+        return { body, etag: feedETag(body), lastModified };
+      },
+      { ttlSeconds: FEED_CACHE_TTL, tags: [BLOG_LIST_TAG] }
+    );
+
+    res.setHeader("Content-Type", FEED_CONTENT_TYPES[format]);
+    res.setHeader("Cache-Control", `public, max-age=${FEED_CACHE_TTL}`);
+    res.setHeader("ETag", feed.etag);
+    if (feed.lastModified) {
+      res.setHeader("Last-Modified", feed.lastModified.toUTCString());
+    }
+
+    // Compares If-None-Match / If-Modified-Since with the headers set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    res.send(feed.body);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "An error occurred while generating the feed",
+      },
+    });
+  }
+});
+
+/**
+ * Send a single published blog post by ID and count the view
+ * Shared by the ID and slug lookups so both use the same cache entry
+ * The views field is the stored count: buffered views show up once flushed
+ * (see utils/views.ts) and the cached copy expires
+ */
+async function sendBlogPost(id: string, req: Request, res: Response): Promise<void> {
   const cacheKey = getBlogPostCacheKey(id);
+  const tags = [blogCacheTag(id)];
+
+  // Serve from the cache; on a miss, load the post (once, however many
+  // requests miss together)
+  let source = "cache";
+  const blog = await cache.wrap<BlogPostCacheData>(
+    cacheKey,
+    async () => {
+      source = "database";
+      const row = await db
+        .select()
+        .from(blogs)
+        .where(
+          and(eq(blogs.id, id), eq(blogs.status, PUBLIC_STATUS), isNull(blogs.deletedAt))
+        )
+        .limit(1)
+        .execute();
+      if (!row.length) return null;
+
+      // Attach tags and categories
+      const [found] = await withTaxonomy(row);
+      return found;
+    },
+    { ttlSeconds: POST_CACHE_TTL, tags }
+  );
+
+  // Check if blog exists
+  if (!blog) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "NOT_FOUND",
+        message: "Blog post not found",
+      },
+    });
+    return;
+  }
 
-  try {
-    // For performance, we'll use a two-phase approach:
-    // 1. First check if we have a cached version to return quickly
-    // 2. In the background, still update the view count and refresh cache
+  res.json({
+    success: true,
+    data: blog,
+    source,
+  });
+
+  // Count the view after responding so it doesn't hold the response up
+  recordView(id, req).catch((err) => console.error("Failed to record view:", err));
+}
+
+/**
+ * GET /api/blogs/by-slug/:slug
+ * Get a single blog post by slug and count the view
+ * Old slugs (from before a title edit) get a 301 response pointing at the
+ * canonical slug instead of the post itself
+ */
+router.get(
+  "/by-slug/:slug",
+  async (req: Request, res: Response): Promise<void> => {
+    const slug = req.params.slug;
+    const cacheKey = getBlogSlugCacheKey(slug);
+
+    try {
+      // Resolve the slug, using the cached mapping if available
+      const resolution = await cache.wrap<SlugResolution>(
+        cacheKey,
+        () => resolveSlug(slug, PUBLIC_STATUS),
+        { ttlSeconds: POST_CACHE_TTL, tags: (found) => [blogCacheTag(found.id)] }
+      );
+
+      if (!resolution) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blog post not found",
+          },
+        });
+        return;
+      }
+
+      // Redirect old slugs to the canonical one
+      if (resolution.canonicalSlug !== slug) {
+        const location = `${req.baseUrl}/by-slug/${resolution.canonicalSlug}`;
+        res.status(301).location(location).json({
+          success: true,
+          redirect: {
+            slug: resolution.canonicalSlug,
+            location,
+          },
+        });
+        return;
+      }
+
+      await sendBlogPost(resolution.id, req, res);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the blog post",
+        },
+      });
+    }
+  }
+);
 
-    // Check cache first for immediate response
-    const cachedBlog = cache.get<BlogPostCacheData>(cacheKey);
+/**
+ * Send the error response for an unusable submission edit link
+ */
+function sendEditTokenError(res: Response, error: EditTokenError) {
+  if (error === "invalid") {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: "INVALID_TOKEN",
+        message: "This edit link is invalid or has expired",
+      },
+    });
+    return;
+  }
+
+  res.status(410).json({
+    success: false,
+    error: {
+      code: "SUBMISSION_CLOSED",
+      message: "This submission is no longer awaiting changes",
+    },
+  });
+}
+
+/**
+ * GET /api/blogs/submissions/:token
+ * Show the author their submission and the moderator's feedback
+ * The token comes from the private edit link sent when changes are requested
+ */
+router.get(
+  "/submissions/:token",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const found = await findEditableSubmission(req.params.token);
+      if ("error" in found) return sendEditTokenError(res, found.error);
+
+      const { blog, round } = found;
+      const [withTerms] = await withTaxonomy([blog]);
+      const rounds = await listReviewRounds(blog.id);
 
-    if (cachedBlog) {
-      // Return cached data immediately
       res.json({
         success: true,
         data: {
-          ...cachedBlog,
-          // Optimistically increment view count in response
-          views: cachedBlog.views + 1,
+          id: blog.id,
+          title: blog.title,
+          summary: blog.summary,
+          content: blog.content,
+          format: blog.format,
+          // What the author wrote; edit this and send it back as content
+          source: blog.source ?? blog.content,
+          authorName: blog.authorName,
+          tags: withTerms.tags,
+          status: blog.status,
+          feedback: round.feedback,
+          roundNumber: round.roundNumber,
+          expiresAt: round.expiresAt,
+          // Every round so far; which admin asked is not disclosed
+          history: rounds.map((r) => ({
+            roundNumber: r.roundNumber,
+            feedback: r.feedback,
+            requestedAt: r.requestedAt,
+            resubmittedAt: r.resubmittedAt,
+          })),
         },
-        source: "cache",
       });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching the submission",
+        },
+      });
+    }
+  }
+);
 
-      // Then update the view count in the background
-      // This is non-blocking and happens after response is sent
-      db.transaction(async (tx) => {
-        await tx
-          .update(blogs)
-          .set({ views: sql`${blogs.views} + 1` })
-          .where(eq(blogs.id, id))
-          .execute();
-
-        // Fetch updated blog to refresh cache
-        const [updated] = await tx
-          .select()
-          .from(blogs)
-          .where(and(eq(blogs.id, id), eq(blogs.status, "approved")))
-          .limit(1)
-          .execute();
-
-        if (updated) {
-          // Update cache with new data
-          cache.set(cacheKey, updated, POST_CACHE_TTL);
+/**
+ * PUT /api/blogs/submissions/:token
+ * Resubmit a post after changes were requested; it goes back to pending review
+ * Body: { title, content, summary?, authorName?, tags?, format? }
+ * authorEmail can't be changed. Omitted tags and authorName are left as they
+ * were; an omitted format keeps the post's format
+ */
+router.put(
+  "/submissions/:token",
+  submitLimiter as any,
+  resubmitValidators as any,
+  checkValidation as any,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { title, content, summary, authorName, tags } = req.body;
+
+      const result = await db.transaction(async (tx) => {
+        // Locks the round so a link can only be used once
+        const found = await findEditableSubmission(req.params.token, tx);
+        if ("error" in found) return found;
+
+        // Render Markdown and sanitize the HTML, keeping the post's format by default
+        const rendered = await renderContent(req.body.format || found.blog.format, content);
+
+        const change = await applyContentChange(
+          tx,
+          found.blog.id,
+          { title, summary: summary ?? null, ...rendered },
+          null
+        );
+
+        if (tags) await setBlogTags(tx, found.blog.id, tags);
+        if (authorName && authorName !== found.blog.authorName) {
+          await tx
+            .update(blogs)
+            .set({ authorName })
+            .where(eq(blogs.id, found.blog.id))
+            .execute();
         }
-      }).catch((err) => console.error("Background view update failed:", err));
 
-      return;
-    }
+        const { blog } = await transitionBlog(tx, found.blog.id, "pending");
+        await closeReviewRound(tx, found.round.id, change.revision?.id ?? null);
+        return { blog };
+      });
 
-    // Cache miss - do it the traditional way
-    // Use transaction to update views and get blog
-    await db.transaction(async (tx) => {
-      // Increment view count
-      await tx
-        .update(blogs)
-        .set({ views: sql`${blogs.views} + 1` })
-        .where(eq(blogs.id, id))
-        .execute();
-    });
+      if ("error" in result) return sendEditTokenError(res, result.error);
 
-    // Get the blog with combined conditions
-    const row = await db
-      .select()
-      .from(blogs)
-      .where(and(eq(blogs.id, id), eq(blogs.status, "approved")))
-      .limit(1)
-      .execute();
+      notifySubmissionReceived(result.blog);
 
-    // Check if blog exists
-    if (!row.length) {
-      res.status(404).json({
+      const [withTerms] = await withTaxonomy([result.blog]);
+      emitWebhookEvent("post.resubmitted", {
+        post: { ...webhookPost(withTerms), tags: withTerms.tags },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          id: withTerms.id,
+          title: withTerms.title,
+          summary: withTerms.summary,
+          content: withTerms.content,
+          format: withTerms.format,
+          source: withTerms.source,
+          authorName: withTerms.authorName,
+          tags: withTerms.tags,
+          status: withTerms.status,
+        },
+        message: "Blog post resubmitted successfully and awaiting approval",
+      });
+    } catch (error) {
+      res.status(500).json({
         success: false,
         error: {
-          code: "NOT_FOUND",
-          message: "Blog post not found",
+          code: "SERVER_ERROR",
+          message: "An error occurred while resubmitting the blog post",
         },
       });
-      return;
     }
+  }
+);
 
-    // Cache for future requests
-    cache.set(cacheKey, row[0], POST_CACHE_TTL);
-
-    // Return the blog
-    res.json({
-      success: true,
-      data: row[0],
-      source: "database",
-    });
+/**
+ * GET /api/blogs/:id
+ * Get a single blog post by ID and count the view
+ * Bots and repeat views by the same visitor (within 30 minutes by default) aren't counted
+ */
+router.get("/:id", async (req: Request, res: Response): Promise<void> => {
+  try {
+    await sendBlogPost(req.params.id, req, res);
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -230,6 +677,9 @@ router.get("/:id", async (req: Request, res: Response): Promise<void> => {
 /**
  * POST /api/blogs/submit
  * Submit a new blog post
+ * Body: { title, content, summary?, authorName, authorEmail, tags?, format? }
+ *   - format: "html" (default) or "markdown"; Markdown is rendered to HTML
+ *     (tables, fenced code, footnotes) and both are sanitized the same way
  * Rate limited to 3 submissions per hour based on IP address
  */
 router.post(
@@ -245,29 +695,61 @@ router.post(
 
       // Extract validated data from request
       const { title, content, summary, authorName, authorEmail } = req.body;
+      const proposedTags: string[] = req.body.tags || [];
+
+      // Render Markdown and sanitize the HTML
+      const rendered = await renderContent(req.body.format || "html", content);
+
+      // Insert the post and its proposed tags together
+      const insertBlog = () =>
+        db.transaction(async (tx) => {
+          const slug = await generateUniqueSlug(tx, title);
+
+          const [blog] = await tx
+            .insert(blogs)
+            .values({
+              title,
+              slug,
+              content: rendered.content,
+              format: rendered.format,
+              source: rendered.source,
+              summary,
+              authorName,
+              authorEmail,
+              ipAddress: hashedIp,
+              adminIpAddress: ip, // Store original IP for admin access
+            })
+            .returning()
+            .execute();
+
+          // The submission itself is revision 1
+          await recordRevision(
+            tx,
+            blog.id,
+            { title, summary: blog.summary, ...rendered },
+            null
+          );
+
+          const tags = await setBlogTags(tx, blog.id, proposedTags);
+          return { ...blog, tags };
+        });
+
+      // Retry once if a concurrent submission claimed the same slug
+      const inserted = await insertBlog().catch((error) => {
+        if (isUniqueViolation(error)) return insertBlog();
+        throw error;
+      });
 
-      // Sanitize HTML content
-      const cleanContent = sanitize(content);
-
-      // Insert into database
-      const inserted = await db
-        .insert(blogs)
-        .values({
-          title,
-          content: cleanContent,
-          summary,
-          authorName,
-          authorEmail,
-          ipAddress: hashedIp,
-          adminIpAddress: ip, // Store original IP for admin access
-        })
-        .returning()
-        .execute();
+      // Queued; a mail or webhook problem never fails the submission
+      notifySubmissionReceived(inserted);
+      emitWebhookEvent("post.submitted", {
+        post: { ...webhookPost(inserted), tags: inserted.tags },
+      });
 
       // Return success with inserted data
       res.status(201).json({
         success: true,
-        data: inserted[0],
+        data: inserted,
         message: "Blog post submitted successfully and awaiting approval",
       });
     } catch (error) {
@@ -0,0 +1,157 @@
+// Image upload routes
+import crypto from "crypto";
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { mediaLimiter } from "../middleware/rateLimiter";
+import {
+  storeUpload,
+  getMedia,
+  toPublicMedia,
+  UnsupportedMediaError,
+  MEDIA_MAX_BYTES,
+} from "../media";
+
+const router = Router();
+
+// Files are kept in memory: they're capped at MEDIA_MAX_BYTES and re-encoded anyway
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MEDIA_MAX_BYTES, files: 1, fields: 0 },
+});
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse the "file" field, turning multer errors into API errors
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      res.status(413).json({
+        success: false,
+        error: {
+          code: "FILE_TOO_LARGE",
+          message: `Files can be at most ${Math.floor(MEDIA_MAX_BYTES / 1024 / 1024)} MB`,
+        },
+      });
+      return;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_UPLOAD",
+        message:
+          error instanceof multer.MulterError
+            ? error.message
+            : "Expected a multipart/form-data body with a single file field",
+      },
+    });
+  });
+}
+
+/**
+ * POST /api/media
+ * Upload an image (multipart/form-data, field "file")
+ * JPEG, PNG, WebP, GIF and AVIF are accepted, judged by the file's content.
+ * The image is re-encoded without metadata and stored with a thumbnail and
+ * responsive sizes. Use the returned "reference" (media:<id>) as an <img> src
+ * or Markdown image URL in a post; it is rewritten to the stored files.
+ * Uploading the same file again returns the existing media (200 instead of 201)
+ * Rate limited to 30 uploads per hour based on IP address
+ */
+router.post(
+  "/",
+  mediaLimiter as any,
+  receiveFile,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_UPLOAD",
+            message: "No file uploaded",
+          },
+        });
+        return;
+      }
+
+      // Hash the uploader's IP for privacy, as for submissions
+      const hashedIp = crypto
+        .createHash("sha256")
+        .update(req.ip || "127.0.0.1")
+        .digest("hex");
+
+      const { media, created } = await storeUpload(
+        req.file.buffer,
+        req.file.originalname || null,
+        hashedIp
+      );
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        data: toPublicMedia(media),
+        message: created ? "Image uploaded successfully" : "Image already uploaded",
+      });
+    } catch (error) {
+      if (error instanceof UnsupportedMediaError) {
+        res.status(415).json({
+          success: false,
+          error: {
+            code: "UNSUPPORTED_MEDIA_TYPE",
+            message: error.message,
+          },
+        });
+        return;
+      }
+
+      console.error("Error storing upload:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while uploading the image",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/media/:id
+ * Get an uploaded image's URLs and dimensions
+ */
+router.get("/:id", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const media = UUID.test(req.params.id) ? await getMedia(req.params.id) : null;
+
+    if (!media) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Media not found",
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: toPublicMedia(media),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "An error occurred while fetching the media",
+      },
+    });
+  }
+});
+
+export default router;
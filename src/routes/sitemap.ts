@@ -0,0 +1,95 @@
+// Sitemap routes, served from the site root
+import { Router, Request, Response } from "express";
+import zlib from "zlib";
+import { promisify } from "util";
+import { cache, BLOG_LIST_TAG } from "../utils/cache";
+import {
+  countSitemapUrls,
+  sitemapPageCount,
+  renderSitemapPage,
+  renderSitemapIndex,
+} from "../utils/sitemap";
+
+const router = Router();
+
+const gzip = promisify(zlib.gzip);
+
+// Cache TTL constants
+const SITEMAP_CACHE_TTL = 600; // 10 minutes cache for sitemaps
+
+/**
+ * Build (or fetch from cache) the XML for /sitemap.xml or /sitemap-<page>.xml
+ * @param page Page number, or undefined for the root sitemap
+ * @returns The XML, or null if the page doesn't exist
+ */
+async function getSitemapXml(page?: number): Promise<string | null> {
+  const cacheKey = `sitemap_${page ?? "root"}`;
+  const cached = await cache.get<string>(cacheKey);
+  if (cached) return cached;
+
+  const pages = sitemapPageCount(await countSitemapUrls());
+
+  let xml: string;
+  if (page === undefined) {
+    // A single sitemap while everything fits, an index once it doesn't
+    xml = pages === 1 ? await renderSitemapPage(1) : renderSitemapIndex(pages);
+  } else if (page >= 1 && page <= pages) {
+    xml = await renderSitemapPage(page);
+  } else {
+    return null;
+  }
+
+  await cache.set(cacheKey, xml, {
+    ttlSeconds: SITEMAP_CACHE_TTL,
+    tags: [BLOG_LIST_TAG],
+  });
+  return xml;
+}
+
+/**
+ * GET /sitemap.xml, /sitemap-<page>.xml (and the same with .gz)
+ * Every published post with its last modification time
+ * Past 50,000 posts, /sitemap.xml becomes an index of numbered sitemap pages
+ */
+router.get(
+  /^\/sitemap(?:-(\d+))?\.xml(\.gz)?$/,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = req.params[0] ? Number(req.params[0]) : undefined;
+      const compressed = Boolean(req.params[1]);
+
+      const xml = await getSitemapXml(page);
+      if (!xml) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Sitemap page not found",
+          },
+        });
+        return;
+      }
+
+      res.setHeader("Cache-Control", `public, max-age=${SITEMAP_CACHE_TTL}`);
+
+      if (compressed) {
+        res.setHeader("Content-Type", "application/gzip");
+        res.send(await gzip(xml));
+        return;
+      }
+
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.send(xml);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while generating the sitemap",
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,134 @@
+// Public tag and category routes
+import { Router, Request, Response } from "express";
+import { db } from "../db";
+import { blogs, tags, categories, blogTags, blogCategories } from "../schema";
+import { eq, and, desc, isNull, sql } from "drizzle-orm";
+import { cache, BLOG_LIST_TAG } from "../utils/cache";
+import { PUBLIC_STATUS } from "../utils/lifecycle";
+
+const router = Router();
+
+// Cache TTL constants
+const TAXONOMY_CACHE_TTL = 60; // 1 minute cache for tag/category listings
+
+/**
+ * GET /api/tags
+ * List tags used by published posts, with the number of published posts per tag
+ * Tags that only appear on unpublished posts are not listed
+ */
+router.get("/tags", async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Try to get from cache first
+    const cacheKey = "tag_counts";
+    const cachedTags = await cache.get(cacheKey);
+
+    if (cachedTags) {
+      res.json({
+        success: true,
+        data: cachedTags,
+        source: "cache",
+      });
+      return;
+    }
+
+    // Cache miss - count published posts per tag
+    const postCount = sql<number>`count(${blogs.id})::int`;
+    const rows = await db
+      .select({ name: tags.name, slug: tags.slug, postCount })
+      .from(tags)
+      .innerJoin(blogTags, eq(blogTags.tagId, tags.id))
+      .innerJoin(
+        blogs,
+        and(
+          eq(blogs.id, blogTags.blogId),
+          eq(blogs.status, PUBLIC_STATUS),
+          isNull(blogs.deletedAt)
+        )
+      )
+      .groupBy(tags.id)
+      .orderBy(desc(postCount), tags.name)
+      .execute();
+
+    await cache.set(cacheKey, rows, {
+      ttlSeconds: TAXONOMY_CACHE_TTL,
+      tags: [BLOG_LIST_TAG],
+    });
+
+    res.json({
+      success: true,
+      data: rows,
+      source: "database",
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "An error occurred while fetching tags",
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/categories
+ * List all categories with the number of published posts in each
+ */
+router.get(
+  "/categories",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Try to get from cache first
+      const cacheKey = "category_counts";
+      const cachedCategories = await cache.get(cacheKey);
+
+      if (cachedCategories) {
+        res.json({
+          success: true,
+          data: cachedCategories,
+          source: "cache",
+        });
+        return;
+      }
+
+      // Cache miss - count published posts per category (including empty ones)
+      const postCount = sql<number>`count(${blogs.id})::int`;
+      const rows = await db
+        .select({ name: categories.name, slug: categories.slug, postCount })
+        .from(categories)
+        .leftJoin(blogCategories, eq(blogCategories.categoryId, categories.id))
+        .leftJoin(
+          blogs,
+          and(
+            eq(blogs.id, blogCategories.blogId),
+            eq(blogs.status, PUBLIC_STATUS),
+            isNull(blogs.deletedAt)
+          )
+        )
+        .groupBy(categories.id)
+        .orderBy(categories.name)
+        .execute();
+
+      await cache.set(cacheKey, rows, {
+        ttlSeconds: TAXONOMY_CACHE_TTL,
+        tags: [BLOG_LIST_TAG],
+      });
+
+      res.json({
+        success: true,
+        data: rows,
+        source: "database",
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SERVER_ERROR",
+          message: "An error occurred while fetching categories",
+        },
+      });
+    }
+  }
+);
+
+export default router;
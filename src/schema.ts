@@ -6,39 +6,347 @@ import {
   text,
   timestamp,
   integer,
+  primaryKey,
+  unique,
+  char,
+  bigint,
+  jsonb,
+  boolean,
+  date,
+  AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import type { MediaVariant } from "./media/types";
 
 // Blog table definition
 export const blogs = pgTable("blogs", {
   id: uuid("id").defaultRandom().primaryKey(),
   title: varchar("title", { length: 100 }).notNull(),
-  content: text("content").notNull(),
+  slug: varchar("slug", { length: 120 }).notNull().unique(),
+  content: text("content").notNull(), // Sanitized HTML, as served
+  format: varchar("format", { length: 10 }).notNull().default("html"), // html or markdown
+  source: text("source"), // Markdown the content was rendered from; null for HTML posts
   summary: varchar("summary", { length: 200 }),
   authorName: varchar("author_name", { length: 50 }).notNull(),
   authorEmail: varchar("author_email", { length: 100 }).notNull(),
-  status: varchar("status", { length: 10 }).notNull().default("pending"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // See utils/lifecycle.ts
   views: integer("views").notNull().default(0),
   submissionDate: timestamp("submission_date", { withTimezone: true })
     .notNull()
     .default(sql`now()`),
   approvalDate: timestamp("approval_date", { withTimezone: true }),
+  publishAt: timestamp("publish_at", { withTimezone: true }), // When a scheduled post goes live
+  publishedAt: timestamp("published_at", { withTimezone: true }),
   lastModified: timestamp("last_modified", { withTimezone: true })
     .notNull()
     .default(sql`now()`),
   ipAddress: text("ip_address").notNull(),
   adminIpAddress: text("admin_ip_address"), // Original IP address only accessible to admins
   adminNotes: text("admin_notes"),
+  // Set while the post is in the trash; see jobs/purge-trash.ts
+  deletedAt: timestamp("deleted_at", { withTimezone: true }),
+  deletedBy: uuid("deleted_by").references((): AnyPgColumn => admins.id, {
+    onDelete: "set null",
+  }),
+  // search_vector (generated tsvector) is deliberately not mapped here so that
+  // it isn't returned by every select; see utils/search.ts
 });
 
+// Previous slugs of blog posts, kept so old URLs can redirect to the canonical slug
+export const blogSlugHistory = pgTable("blog_slug_history", {
+  slug: varchar("slug", { length: 120 }).primaryKey(),
+  blogId: uuid("blog_id")
+    .notNull()
+    .references(() => blogs.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+});
+
+// Blog revision history: one row per title/summary/content change
+export const blogRevisions = pgTable(
+  "blog_revisions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    blogId: uuid("blog_id")
+      .notNull()
+      .references(() => blogs.id, { onDelete: "cascade" }),
+    revisionNumber: integer("revision_number").notNull(),
+    title: varchar("title", { length: 100 }).notNull(),
+    summary: varchar("summary", { length: 200 }),
+    content: text("content").notNull(),
+    format: varchar("format", { length: 10 }).notNull().default("html"),
+    source: text("source"),
+    adminId: uuid("admin_id").references(() => admins.id, {
+      onDelete: "set null",
+    }), // Null for the author's own submission
+    restoredFrom: uuid("restored_from"), // Revision this one was restored from, if any
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => [unique().on(table.blogId, table.revisionNumber)]
+);
+
 // Admin table definition
 export const admins = pgTable("admins", {
   id: uuid("id").defaultRandom().primaryKey(),
-  username: varchar("username", { length: 50 }).notNull().unique(),
+  username: varchar("username", { length: 50 }).notNull().unique(), // Also unique on lower(username)
   password: text("password").notNull(), // This should store a hashed password
+  role: varchar("role", { length: 20 }).notNull().default("viewer"), // See utils/roles.ts
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
     .default(sql`now()`),
   lastLogin: timestamp("last_login", { withTimezone: true }),
+  disabledAt: timestamp("disabled_at", { withTimezone: true }), // Disabled admins can't authenticate
+  totpSecret: text("totp_secret"), // Base32 TOTP secret (pending until totpEnabledAt is set)
+  totpEnabledAt: timestamp("totp_enabled_at", { withTimezone: true }),
+  totpLastCounter: bigint("totp_last_counter", { mode: "number" }), // Last accepted time step
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }), // Set after too many failed logins
+});
+ 
+// Tag table definition (free-form labels, proposed by submitters or admins)
+export const tags = pgTable("tags", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 30 }).notNull(),
+  slug: varchar("slug", { length: 40 }).notNull().unique(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+});
+
+// Category table definition (curated by admins)
+export const categories = pgTable("categories", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 50 }).notNull(),
+  slug: varchar("slug", { length: 60 }).notNull().unique(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+});
+
+// Blog <-> tag join table
+export const blogTags = pgTable(
+  "blog_tags",
+  {
+    blogId: uuid("blog_id")
+      .notNull()
+      .references(() => blogs.id, { onDelete: "cascade" }),
+    tagId: uuid("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.blogId, table.tagId] })]
+);
+
+// Blog <-> category join table
+export const blogCategories = pgTable(
+  "blog_categories",
+  {
+    blogId: uuid("blog_id")
+      .notNull()
+      .references(() => blogs.id, { onDelete: "cascade" }),
+    categoryId: uuid("category_id")
+      .notNull()
+      .references(() => categories.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.blogId, table.categoryId] })]
+);
+
+// Review rounds: moderator feedback sent to the author and their resubmission
+export const blogReviewRounds = pgTable(
+  "blog_review_rounds",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    blogId: uuid("blog_id")
+      .notNull()
+      .references(() => blogs.id, { onDelete: "cascade" }),
+    roundNumber: integer("round_number").notNull(),
+    feedback: text("feedback").notNull(),
+    requestedBy: uuid("requested_by").references(() => admins.id, {
+      onDelete: "set null",
+    }),
+    requestedAt: timestamp("requested_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(), // Edit link expiry
+    resubmittedAt: timestamp("resubmitted_at", { withTimezone: true }),
+    revisionId: uuid("revision_id").references(() => blogRevisions.id, {
+      onDelete: "set null",
+    }),
+  },
+  (table) => [unique().on(table.blogId, table.roundNumber)]
+);
+
+// Admin sessions: one per login, each owning a family of rotating refresh tokens
+export const adminSessions = pgTable("admin_sessions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  adminId: uuid("admin_id")
+    .notNull()
+    .references(() => admins.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  revokedReason: varchar("revoked_reason", { length: 30 }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+});
+
+// Refresh tokens (stored as SHA-256 hashes); each can be exchanged exactly once
+export const adminRefreshTokens = pgTable("admin_refresh_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  sessionId: uuid("session_id")
+    .notNull()
+    .references(() => adminSessions.id, { onDelete: "cascade" }),
+  tokenHash: char("token_hash", { length: 64 }).notNull().unique(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+});
+
+// One-time 2FA recovery codes (stored as SHA-256 hashes)
+export const adminRecoveryCodes = pgTable(
+  "admin_recovery_codes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    adminId: uuid("admin_id")
+      .notNull()
+      .references(() => admins.id, { onDelete: "cascade" }),
+    codeHash: char("code_hash", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .default(sql`now()`),
+    usedAt: timestamp("used_at", { withTimezone: true }),
+  },
+  (table) => [unique().on(table.adminId, table.codeHash)]
+);
+
+// Failed login counters keyed by "ip:<address>" or "user:<username>"
+export const loginAttempts = pgTable("login_attempts", {
+  key: varchar("key", { length: 150 }).primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  blockedUntil: timestamp("blocked_until", { withTimezone: true }),
+});
+
+// Audit trail of admin actions (no foreign keys, so entries outlive their subjects)
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  adminId: uuid("admin_id"), // Null for actions taken by background jobs
+  adminUsername: varchar("admin_username", { length: 50 }),
+  action: varchar("action", { length: 40 }).notNull(), // See utils/audit.ts
+  targetType: varchar("target_type", { length: 20 }).notNull(), // "blog" or "admin"
+  targetId: uuid("target_id"),
+  before: jsonb("before"), // Changed fields before the action
+  after: jsonb("after"), // Changed fields after the action
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+});
+
+// Durable background jobs; see jobs/queue.ts
+export const jobs = pgTable("jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  type: varchar("type", { length: 60 }).notNull(),
+  payload: jsonb("payload").notNull().default({}),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  lockedAt: timestamp("locked_at", { withTimezone: true }),
+  lockedBy: text("locked_by"), // "<hostname>:<pid>" of the worker running it
+  lastError: text("last_error"),
+  dedupeKey: varchar("dedupe_key", { length: 120 }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+});
+
+// Outgoing webhook subscriptions; see webhooks/index.ts
+export const webhooks = pgTable("webhooks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key shared with the receiver
+  events: text("events").array().notNull().default(sql`'{*}'`), // Event names, or "*" for all
+  description: varchar("description", { length: 200 }),
+  active: boolean("active").notNull().default(true),
+  createdBy: uuid("created_by").references(() => admins.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+});
+
+// One row per event sent to a webhook, updated on each delivery attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  webhookId: uuid("webhook_id")
+    .notNull()
+    .references(() => webhooks.id, { onDelete: "cascade" }),
+  event: varchar("event", { length: 60 }).notNull(),
+  payload: jsonb("payload").notNull(), // Exact JSON body sent
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  lastError: text("last_error"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+});
+
+// Uploaded images; files live in media storage (see media/index.ts)
+export const media = pgTable("media", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  contentHash: char("content_hash", { length: 64 }).notNull().unique(), // SHA-256 of the uploaded bytes
+  mimeType: varchar("mime_type", { length: 50 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(), // Of the stored (re-encoded) original
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  originalName: varchar("original_name", { length: 255 }),
+  storageKey: text("storage_key").notNull(),
+  variants: jsonb("variants").$type<MediaVariant[]>().notNull().default([]), // Thumbnail and responsive sizes
+  ipAddress: text("ip_address"), // Hashed uploader IP, as for blogs
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .default(sql`now()`),
 });
- 
\ No newline at end of file
+
+// Daily view counts per post and referring site (see utils/views.ts)
+export const blogViewsDaily = pgTable(
+  "blog_views_daily",
+  {
+    blogId: uuid("blog_id")
+      .notNull()
+      .references(() => blogs.id, { onDelete: "cascade" }),
+    day: date("day", { mode: "string" }).notNull(), // YYYY-MM-DD (UTC)
+    referrer: varchar("referrer", { length: 255 }).notNull().default(""), // Referring host; "" for direct
+    views: integer("views").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.blogId, table.day, table.referrer] })]
+);
@@ -0,0 +1,57 @@
+#!/usr/bin/env ts-node
+import "dotenv/config";
+import { Pool } from "pg";
+import { migrateUp, migrateDown, migrationStatus } from "../migrations/runner";
+
+/**
+ * Schema migration CLI
+ * Usage:
+ *   migrate [up] [--dry-run]
+ *   migrate down [--steps N] [--dry-run]
+ *   migrate status
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith("--")) || "up";
+  const dryRun = args.includes("--dry-run");
+  const stepsIndex = args.indexOf("--steps");
+  const steps = stepsIndex >= 0 ? Number(args[stepsIndex + 1]) || 1 : 1;
+
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    switch (command) {
+      case "up":
+        await migrateUp(pool, { dryRun });
+        break;
+      case "down":
+        await migrateDown(pool, { dryRun, steps });
+        break;
+      case "status": {
+        const rows = await migrationStatus(pool);
+        for (const row of rows) {
+          const state = row.appliedAt
+            ? `applied ${row.appliedAt.toISOString()}`
+            : "pending";
+          console.log(
+            `${String(row.version).padStart(4, "0")}-${row.name}  ${state}`
+          );
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}"`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Migration command failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,29 @@
+#!/usr/bin/env ts-node
+import "dotenv/config";
+import { closeDatabase } from "../db";
+import { sendPendingDigest } from "../notifications";
+
+/**
+ * Email the digest of posts awaiting review to ADMIN_DIGEST_RECIPIENTS
+ * Meant to be run from cron, e.g. every morning; the email is queued and
+ * delivered by the server's job worker
+ */
+async function main() {
+  try {
+    const { pendingCount, sent } = await sendPendingDigest();
+    console.log(
+      sent
+        ? `📧 Queued digest of ${pendingCount} pending post(s)`
+        : `📧 No digest sent (${pendingCount} pending post(s))`
+    );
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Digest failed:", error);
+    process.exit(1);
+  });
@@ -7,15 +7,21 @@ import cluster from "cluster";
 import os from "os";
 import cookieParser from "cookie-parser";
 import { init as initDb, closeDatabase } from "./db";
+import { closeRedis } from "./utils/redis";
+import { config } from "./config";
 import blogRoutes from "./routes/blog";
+import taxonomyRoutes from "./routes/taxonomy";
 // import authRoutes from "./routes/auth"; // Old auth routes with type problems
 import adminRoutes from "./routes/admin";
-// import adminAuthRoutes from "./routes/admin-routes"; // New admin auth routes with TS issues
-
-// Import JavaScript version of admin auth routes - FIX: properly handle default import
-// @ts-ignore - Allow JS module import
-const adminAuthRoutesModule = require("./routes/admin-auth.js");
-const adminAuthRoutes = adminAuthRoutesModule.default || adminAuthRoutesModule;
+import adminUserRoutes from "./routes/admin-users";
+import adminAuthRoutes from "./routes/admin-auth";
+import adminJobRoutes from "./routes/admin-jobs";
+import adminWebhookRoutes from "./routes/admin-webhooks";
+import sitemapRoutes from "./routes/sitemap";
+import mediaRoutes from "./routes/media";
+import { localMediaHandler } from "./media";
+import { startJobs } from "./jobs";
+import { startViewFlusher } from "./utils/views";
 
 // Determine the number of CPU cores to use (leave one for the OS)
 const numCPUs = Math.max(1, os.cpus().length - 1);
@@ -42,7 +48,7 @@ async function startServer() {
   app.use(helmet());
   app.use(
     cors({
-      origin: process.env.FRONTEND_URL || "http://localhost:3000",
+      origin: config.frontendUrl,
       methods: ["GET", "POST", "PUT", "DELETE"],
       allowedHeaders: ["Content-Type", "Authorization"],
       credentials: true, // Allow cookies to be sent with requests
@@ -50,6 +56,7 @@ async function startServer() {
   );
 
   // Increase JSON payload limit and use non-blocking compression
+  // (images don't go through JSON: they're uploaded as multipart to /api/media)
   app.use(express.json({ limit: "10kb" }));
 
   // Add cookie parser middleware
@@ -65,15 +72,27 @@ async function startServer() {
 
   // Register routes
   try {
-    app.use("/api/auth", adminAuthRoutes); // Use JS admin auth routes
+    app.use("/api/auth", adminAuthRoutes);
     app.use("/api/blogs", blogRoutes);
+    app.use("/api/media", mediaRoutes);
+    app.use("/api/admin/users", adminUserRoutes);
+    app.use("/api/admin/jobs", adminJobRoutes);
+    app.use("/api/admin/webhooks", adminWebhookRoutes);
     app.use("/api/admin", adminRoutes);
+    app.use("/api", taxonomyRoutes);
+    app.use("/", sitemapRoutes);
     console.log("✅ Routes registered successfully");
   } catch (error) {
     console.error("❌ Error registering routes:", error);
     // Continue startup despite route errors
   }
 
+  // Serve uploaded media from disk when it isn't stored in a bucket
+  const mediaFiles = localMediaHandler();
+  if (mediaFiles) {
+    app.use("/media", mediaFiles);
+  }
+
   // Health check endpoint
   app.get("/health", (req, res) => {
     res.json({
@@ -141,14 +160,31 @@ async function startServer() {
     }
   );
 
+  // Start the background job worker (one per cluster worker)
+  const stopJobs = startJobs();
+
+  // Write buffered view counts to the database every few seconds
+  const stopViews = startViewFlusher();
+
+  // Stop background work, finishing running jobs and flushing buffered views
+  const stopBackground = async () => {
+    await stopJobs();
+    await stopViews();
+  };
+
   // Start the server
   const port = process.env.PORT || 3000;
   const server = app.listen(port, () => {
     console.log(`🚀 Worker ${process.pid} running on http://localhost:${port}`);
   });
 
+  // Stop picking up jobs when the server closes
+  server.on("close", () => {
+    stopBackground().catch((error) => console.error("Error stopping background work:", error));
+  });
+
   // Setup graceful shutdown
-  setupGracefulShutdown(server);
+  setupGracefulShutdown(server, stopBackground);
 
   return server;
 }
@@ -156,8 +192,9 @@ async function startServer() {
 /**
  * Setup graceful shutdown to close database connections and server
  */
-function setupGracefulShutdown(server: any) {
-  // Handle graceful shutdown for SIGTERM and SIGINT
+function setupGracefulShutdown(server: any, stopBackground: () => Promise<void>) {
+  // Handle graceful shutdown for SIGTERM and SIGINT, and the primary's
+  // shutdown message in a cluster
   const shutdown = async () => {
     console.log("💤 Graceful shutdown initiated...");
 
@@ -167,8 +204,13 @@ function setupGracefulShutdown(server: any) {
     });
 
     try {
-      // Close database connections
+      // Let running jobs finish and buffered views flush before their
+      // connections go away
+      await stopBackground();
+
+      // Close database and Redis connections
       await closeDatabase();
+      await closeRedis();
       console.log("✅ Graceful shutdown completed");
       process.exit(0);
     } catch (err) {
@@ -180,6 +222,14 @@ function setupGracefulShutdown(server: any) {
   // Listen for termination signals
   process.on("SIGTERM", shutdown);
   process.on("SIGINT", shutdown);
+
+  // Listen for shutdown message from primary
+  process.on("message", (msg) => {
+    if (msg === "shutdown") {
+      console.log(`🛑 Worker ${process.pid} received shutdown message`);
+      shutdown();
+    }
+  });
 }
 
 /**
@@ -234,20 +284,8 @@ async function start() {
   } else {
     // Worker processes or development mode - start server
     try {
-      const server = await startServer();
-
-      // Listen for shutdown message from primary
-      process.on("message", async (msg) => {
-        if (msg === "shutdown") {
-          console.log(`🛑 Worker ${process.pid} received shutdown message`);
-
-          // Close HTTP server and database connections
-          server.close(async () => {
-            await closeDatabase();
-            process.exit(0);
-          });
-        }
-      });
+      // Shutdown (signals, or the primary's message) is handled in startServer
+      await startServer();
     } catch (error) {
       console.error("❌ Failed to start worker:", error);
       process.exit(1);
@@ -0,0 +1,71 @@
+// Database setup for tests that need Postgres
+// Import this before anything that loads ../db: it points DATABASE_URL at
+// TEST_DATABASE_URL. Suites using the database are skipped when that isn't set,
+// and every table is emptied between tests, so never point it at real data
+import { Pool } from "pg";
+
+export const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL || null;
+
+if (TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = TEST_DATABASE_URL;
+}
+
+/**
+ * Suite option that skips database tests when no test database is configured
+ */
+export const requiresDatabase = {
+  skip: TEST_DATABASE_URL ? false : "TEST_DATABASE_URL is not set",
+};
+
+/**
+ * Bring the test database schema up to date
+ */
+export async function migrateTestDatabase() {
+  const { migrateUp } = await import("../migrations/runner");
+  const pool = new Pool({ connectionString: TEST_DATABASE_URL });
+  try {
+    await migrateUp(pool, { log: () => {} });
+  } finally {
+    await pool.end();
+  }
+}
+
+/**
+ * Delete every row from every table except the migration ledger
+ */
+export async function resetTestDatabase() {
+  const { withClient } = await import("../db");
+  await withClient(async (client) => {
+    const { rows } = await client.query(
+      `SELECT tablename FROM pg_tables
+       WHERE schemaname = 'public' AND tablename <> 'schema_migrations'`
+    );
+    if (!rows.length) return;
+    await client.query(
+      `TRUNCATE ${rows.map((row: any) => `"${row.tablename}"`).join(", ")} CASCADE`
+    );
+  });
+}
+
+/**
+ * Insert an admin to own sessions, audit entries and 2FA state
+ * @returns The admin's ID
+ */
+export async function createTestAdmin(username: string = "test-admin"): Promise<string> {
+  const { withClient } = await import("../db");
+  return withClient(async (client) => {
+    const { rows } = await client.query(
+      "INSERT INTO admins (username, password, role) VALUES ($1, $2, 'superadmin') RETURNING id",
+      [username, "not-a-real-hash"]
+    );
+    return rows[0].id;
+  });
+}
+
+/**
+ * Close the shared pool so the test process can exit
+ */
+export async function closeTestDatabase() {
+  const { closeDatabase } = await import("../db");
+  await closeDatabase();
+}
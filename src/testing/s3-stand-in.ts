@@ -0,0 +1,125 @@
+// Local stand-in for an S3-compatible bucket
+// Keeps objects in memory and checks each request's Signature Version 4
+// signature by re-signing what actually arrived over the wire
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { signS3Request } from "../media/storage/s3";
+
+/**
+ * An object the stand-in holds
+ */
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  cacheControl: string;
+}
+
+/**
+ * An S3-compatible bucket on a local port, for S3Storage to talk to
+ */
+export class S3StandIn {
+  readonly bucket = "test-bucket";
+  readonly objects: Map<string, StoredObject> = new Map();
+  readonly requests: { method: string; path: string }[] = [];
+  readonly credentials = {
+    accessKeyId: "AKIDTEST",
+    secretAccessKey: "test-secret",
+    region: "test-region",
+  };
+  // Answer the next request with this status instead of handling it
+  failNext: number | null = null;
+
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => this.handle(req, Buffer.concat(chunks), res));
+  });
+
+  async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  get endpoint() {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Options for an S3Storage pointed at this stand-in
+   */
+  get storageOptions() {
+    return { endpoint: this.endpoint, bucket: this.bucket, ...this.credentials };
+  }
+
+  private handle(req: http.IncomingMessage, body: Buffer, res: http.ServerResponse) {
+    const url = new URL(req.url, this.endpoint);
+    this.requests.push({ method: req.method, path: url.pathname });
+
+    if (this.failNext) {
+      res.writeHead(this.failNext).end("<Error><Code>InternalError</Code></Error>");
+      this.failNext = null;
+      return;
+    }
+
+    if (!this.hasValidSignature(req, url, body)) {
+      res.writeHead(403).end("<Error><Code>SignatureDoesNotMatch</Code></Error>");
+      return;
+    }
+
+    const prefix = `/${this.bucket}/`;
+    if (!url.pathname.startsWith(prefix)) {
+      res.writeHead(404).end("<Error><Code>NoSuchBucket</Code></Error>");
+      return;
+    }
+    const key = url.pathname.slice(prefix.length).split("/").map(decodeURIComponent).join("/");
+
+    if (req.method === "PUT") {
+      this.objects.set(key, {
+        body,
+        contentType: req.headers["content-type"],
+        cacheControl: req.headers["cache-control"],
+      });
+      res.writeHead(200).end();
+    } else if (req.method === "DELETE") {
+      this.objects.delete(key);
+      res.writeHead(204).end();
+    } else {
+      res.writeHead(405).end();
+    }
+  }
+
+  /**
+   * Re-sign the request from the signed headers it carries and compare
+   */
+  private hasValidSignature(req: http.IncomingMessage, url: URL, body: Buffer): boolean {
+    const authorization = req.headers.authorization || "";
+    const signedHeaders = /SignedHeaders=([^,]+)/.exec(authorization)?.[1]?.split(";") || [];
+    const amzDate = String(req.headers["x-amz-date"] || "");
+    const payloadHash = crypto.createHash("sha256").update(body).digest("hex");
+    if (req.headers["x-amz-content-sha256"] !== payloadHash) return false;
+
+    // The signer adds host and x-amz-* itself
+    const headers: Record<string, string> = {};
+    for (const name of signedHeaders) {
+      if (name !== "host" && !name.startsWith("x-amz-")) {
+        headers[name] = String(req.headers[name]);
+      }
+    }
+
+    const now = new Date(
+      amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z")
+    );
+    if (Number.isNaN(now.getTime())) return false;
+
+    const expected = signS3Request(
+      { method: req.method, url, headers, payloadHash },
+      this.credentials,
+      now
+    );
+    return expected.authorization === authorization;
+  }
+}
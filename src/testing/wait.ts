@@ -0,0 +1,20 @@
+// Polling helper for tests that wait on background work (jobs, deliveries)
+
+/**
+ * Call `check` until it returns something truthy
+ * @returns The first truthy result
+ * @throws If nothing truthy came back within `timeoutMs`
+ */
+export async function waitFor<T>(
+  check: () => Promise<T> | T,
+  timeoutMs: number = 10000,
+  intervalMs: number = 50
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error(`Timed out after ${timeoutMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
@@ -4,6 +4,7 @@ import "express-session";
 interface AdminPayload {
   username: string;
   id: string;
+  role?: string;
 }
 
 declare module "express-session" {
@@ -0,0 +1,234 @@
+// Admin audit log: recording admin actions and querying/exporting the trail
+import { Request } from "express";
+import { and, desc, eq, gte, lte, SQL, sql } from "drizzle-orm";
+import { db, Executor } from "../db";
+import { adminAuditLog } from "../schema";
+
+/**
+ * Actions recorded in the audit log
+ */
+export const AUDIT_ACTIONS = [
+  "blog.content_update",
+  "blog.revision_restore",
+  "blog.taxonomy_update",
+  "blog.status_change",
+  "blog.delete",
+  "blog.restore",
+  "blog.purge",
+  "admin.create",
+  "admin.role_change",
+  "admin.disable",
+  "admin.enable",
+  "admin.password_reset",
+  "admin.password_change",
+  "admin.two_factor_reset",
+  "admin.unlock",
+  "admin.delete",
+  "webhook.create",
+  "webhook.update",
+  "webhook.secret_rotate",
+  "webhook.delete",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType = "blog" | "admin" | "webhook";
+
+/**
+ * A field snapshot; only the fields an action touched are stored
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Filters accepted by the audit log listing and export
+ */
+export interface AuditFilters {
+  adminId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Reduce before/after snapshots to the fields whose values differ
+ */
+export function changedFields(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+): { before: AuditSnapshot | null; after: AuditSnapshot | null } {
+  if (!before || !after) return { before, after };
+
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * An action to record, with snapshots of the target before and after it
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+/**
+ * Insert an audit entry for the given actor
+ */
+async function insertAuditEntry(
+  tx: Executor,
+  actor: {
+    adminId: string | null;
+    adminUsername: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  },
+  entry: AuditEntry
+) {
+  const { before, after } = changedFields(entry.before ?? null, entry.after ?? null);
+
+  await tx
+    .insert(adminAuditLog)
+    .values({
+      ...actor,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      before,
+      after,
+    })
+    .execute();
+}
+
+/**
+ * Record an admin action
+ * Pass the transaction that performs the change so the entry commits (or
+ * rolls back) together with it
+ * @param tx Database or transaction to write with
+ * @param req Request of the acting admin (for ID, username, IP and user agent)
+ */
+export async function recordAudit(tx: Executor, req: Request, entry: AuditEntry) {
+  const admin = (req as any).admin;
+
+  await insertAuditEntry(
+    tx,
+    {
+      adminId: admin?.id ?? null,
+      adminUsername: admin?.username ?? null,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    },
+    entry
+  );
+}
+
+/**
+ * Record an action taken by a background job rather than an admin
+ * The entry has no admin, IP address or user agent
+ * @param tx Database or transaction to write with
+ */
+export async function recordSystemAudit(tx: Executor, entry: AuditEntry) {
+  await insertAuditEntry(
+    tx,
+    { adminId: null, adminUsername: null, ipAddress: null, userAgent: null },
+    entry
+  );
+}
+
+/**
+ * Build the WHERE clause for a set of audit filters
+ */
+function auditConditions(filters: AuditFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filters.adminId) conditions.push(eq(adminAuditLog.adminId, filters.adminId));
+  if (filters.action) conditions.push(eq(adminAuditLog.action, filters.action));
+  if (filters.targetType) {
+    conditions.push(eq(adminAuditLog.targetType, filters.targetType));
+  }
+  if (filters.targetId) conditions.push(eq(adminAuditLog.targetId, filters.targetId));
+  if (filters.from) conditions.push(gte(adminAuditLog.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(adminAuditLog.createdAt, filters.to));
+  return conditions.length ? and(...conditions) : undefined;
+}
+
+/**
+ * List audit entries matching the filters, newest first
+ */
+export async function listAuditEntries(
+  filters: AuditFilters,
+  limit: number,
+  offset: number = 0
+) {
+  const where = auditConditions(filters);
+
+  const [rows, countResult] = await Promise.all([
+    db
+      .select()
+      .from(adminAuditLog)
+      .where(where)
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(limit)
+      .offset(offset)
+      .execute(),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(adminAuditLog)
+      .where(where)
+      .execute(),
+  ]);
+
+  return { rows, total: countResult[0].count };
+}
+
+/**
+ * Quote a value for CSV (RFC 4180), neutralising spreadsheet formulas
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit entries as CSV with a header row
+ */
+export function auditEntriesToCsv(
+  rows: (typeof adminAuditLog.$inferSelect)[]
+): string {
+  const columns = [
+    "createdAt",
+    "adminId",
+    "adminUsername",
+    "action",
+    "targetType",
+    "targetId",
+    "before",
+    "after",
+    "ipAddress",
+    "userAgent",
+  ] as const;
+
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvField(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
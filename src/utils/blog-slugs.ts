@@ -0,0 +1,133 @@
+// Blog slug allocation, renaming and lookup
+import { and, eq, isNull, like, or, ne } from "drizzle-orm";
+import { db, Executor } from "../db";
+import { blogs, blogSlugHistory } from "../schema";
+import { slugify } from "./slug";
+
+// Maximum length of the title-derived part of a slug (leaves room for suffixes)
+const SLUG_BASE_LENGTH = 100;
+
+/**
+ * Result of resolving a slug to a blog post
+ */
+export type SlugResolution = {
+  id: string;
+  // The post's current slug; differs from the requested slug after a rename
+  canonicalSlug: string;
+};
+
+/**
+ * Pick a slug for a title that no other post uses, currently or historically
+ * Collisions get a numeric suffix: "my-post", "my-post-2", "my-post-3", ...
+ * @param tx Database or transaction to run the queries on
+ * @param title Post title to derive the slug from
+ * @param blogId When renaming, the post's own ID (its own old slugs may be reused)
+ */
+export async function generateUniqueSlug(
+  tx: Executor,
+  title: string,
+  blogId?: string
+): Promise<string> {
+  const base = slugify(title, SLUG_BASE_LENGTH) || "post";
+  // slugify only emits [a-z0-9-], so the base needs no LIKE escaping
+  const pattern = `${base}-%`;
+
+  const [current, historical] = await Promise.all([
+    tx
+      .select({ slug: blogs.slug })
+      .from(blogs)
+      .where(
+        and(
+          or(eq(blogs.slug, base), like(blogs.slug, pattern)),
+          blogId ? ne(blogs.id, blogId) : undefined
+        )
+      )
+      .execute(),
+    tx
+      .select({ slug: blogSlugHistory.slug })
+      .from(blogSlugHistory)
+      .where(
+        and(
+          or(eq(blogSlugHistory.slug, base), like(blogSlugHistory.slug, pattern)),
+          blogId ? ne(blogSlugHistory.blogId, blogId) : undefined
+        )
+      )
+      .execute(),
+  ]);
+
+  const taken = new Set([...current, ...historical].map((row) => row.slug));
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+}
+
+/**
+ * Give a post a new slug derived from its (new) title
+ * The previous slug is moved into the history table so old URLs keep resolving
+ * @returns The new slug, or null if the slug didn't change
+ */
+export async function renameBlogSlug(
+  tx: Executor,
+  blogId: string,
+  currentSlug: string,
+  newTitle: string
+): Promise<string | null> {
+  const slug = await generateUniqueSlug(tx, newTitle, blogId);
+  if (slug === currentSlug) return null;
+
+  // Reclaiming one of the post's own old slugs removes it from the history
+  await tx
+    .delete(blogSlugHistory)
+    .where(eq(blogSlugHistory.slug, slug))
+    .execute();
+
+  await tx
+    .insert(blogSlugHistory)
+    .values({ slug: currentSlug, blogId })
+    .onConflictDoNothing()
+    .execute();
+
+  await tx.update(blogs).set({ slug }).where(eq(blogs.id, blogId)).execute();
+
+  return slug;
+}
+
+/**
+ * Resolve a current or historical slug to a post ID and its canonical slug
+ * @param slug Slug from the request URL
+ * @param status Only match posts with this status (trashed posts never match)
+ * @returns The resolution, or null if no matching post exists
+ */
+export async function resolveSlug(
+  slug: string,
+  status: string
+): Promise<SlugResolution | null> {
+  const [current] = await db
+    .select({ id: blogs.id, slug: blogs.slug })
+    .from(blogs)
+    .where(
+      and(eq(blogs.slug, slug), eq(blogs.status, status), isNull(blogs.deletedAt))
+    )
+    .limit(1)
+    .execute();
+
+  if (current) return { id: current.id, canonicalSlug: current.slug };
+
+  const [previous] = await db
+    .select({ id: blogs.id, slug: blogs.slug })
+    .from(blogSlugHistory)
+    .innerJoin(blogs, eq(blogs.id, blogSlugHistory.blogId))
+    .where(
+      and(
+        eq(blogSlugHistory.slug, slug),
+        eq(blogs.status, status),
+        isNull(blogs.deletedAt)
+      )
+    )
+    .limit(1)
+    .execute();
+
+  return previous ? { id: previous.id, canonicalSlug: previous.slug } : null;
+}
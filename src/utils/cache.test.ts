@@ -0,0 +1,169 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BLOG_LIST_TAG,
+  blogCacheTag,
+  cache,
+  getBlogPostCacheKey,
+  invalidateBlogCache,
+} from "./cache";
+
+// Short TTLs: expiry timers would otherwise keep the test process alive
+const ttlSeconds = 1;
+
+/**
+ * A load whose result is released by calling resolve()
+ */
+function deferredLoad<T>() {
+  let resolve: (value: T) => void;
+  const promise = new Promise<T>((done) => (resolve = done));
+  let calls = 0;
+  return {
+    load: () => {
+      calls++;
+      return promise;
+    },
+    resolve: (value: T) => resolve(value),
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe("cache tags", () => {
+  beforeEach(() => cache.clear());
+
+  test("invalidating a tag drops only the entries carrying it", async () => {
+    await cache.set("post", "post", { ttlSeconds, tags: ["blog:1"] });
+    await cache.set("list", "list", { ttlSeconds, tags: ["blog:1", BLOG_LIST_TAG] });
+    await cache.set("other", "other", { ttlSeconds, tags: ["blog:2"] });
+    await cache.set("untagged", "untagged", ttlSeconds);
+
+    await cache.invalidateTags("blog:1");
+
+    assert.equal(await cache.get("post"), null);
+    assert.equal(await cache.get("list"), null);
+    assert.equal(await cache.get("other"), "other");
+    assert.equal(await cache.get("untagged"), "untagged");
+  });
+
+  test("overwriting an entry replaces its tags", async () => {
+    await cache.set("key", "first", { ttlSeconds, tags: ["a"] });
+    await cache.set("key", "second", { ttlSeconds, tags: ["b"] });
+
+    await cache.invalidateTags("a");
+    assert.equal(await cache.get("key"), "second");
+
+    await cache.invalidateTags("b");
+    assert.equal(await cache.get("key"), null);
+  });
+
+  test("invalidateBlogCache drops the post and every listing", async () => {
+    const id = "3f1c9a52-7a54-4c43-9a43-1f1f8f3c0b11";
+    await cache.set(getBlogPostCacheKey(id), { id }, { ttlSeconds, tags: [blogCacheTag(id)] });
+    await cache.set("blog_list_1", [], { ttlSeconds, tags: [BLOG_LIST_TAG] });
+    await cache.set("blog_post_other", {}, { ttlSeconds, tags: [blogCacheTag("other")] });
+
+    await invalidateBlogCache(id);
+
+    assert.equal(await cache.get(getBlogPostCacheKey(id)), null);
+    assert.equal(await cache.get("blog_list_1"), null);
+    assert.deepEqual(await cache.get("blog_post_other"), {});
+  });
+});
+
+describe("cache.wrap", () => {
+  beforeEach(() => cache.clear());
+
+  test("concurrent misses share one load", async () => {
+    const deferred = deferredLoad<string>();
+    const coalescedBefore = cache.stats().coalesced;
+
+    const results = Promise.all(
+      [1, 2, 3].map(() => cache.wrap("key", deferred.load, { ttlSeconds }))
+    );
+    // Let every wrap() reach the in-flight check
+    await new Promise((resolve) => setImmediate(resolve));
+    deferred.resolve("value");
+
+    assert.deepEqual(await results, ["value", "value", "value"]);
+    assert.equal(deferred.calls, 1);
+    assert.equal(cache.stats().coalesced - coalescedBefore, 2);
+    assert.equal(cache.stats().inFlight, 0);
+
+    // Now served from the cache
+    assert.equal(await cache.wrap("key", deferred.load, { ttlSeconds }), "value");
+    assert.equal(deferred.calls, 1);
+  });
+
+  test("tags can depend on the loaded value", async () => {
+    await cache.wrap("slug_hello", async () => ({ id: "7" }), {
+      ttlSeconds,
+      tags: (value) => [blogCacheTag(value.id)],
+    });
+
+    await cache.invalidateTags(blogCacheTag("7"));
+
+    assert.equal(await cache.get("slug_hello"), null);
+  });
+
+  test("doesn't cache null results", async () => {
+    let calls = 0;
+    const load = async (): Promise<string | null> => {
+      calls++;
+      return null;
+    };
+
+    assert.equal(await cache.wrap("missing", load, { ttlSeconds }), null);
+    assert.equal(await cache.wrap("missing", load, { ttlSeconds }), null);
+    assert.equal(calls, 2);
+  });
+
+  test("a load that started before an invalidation doesn't cache its stale result", async () => {
+    const stale = deferredLoad<string>();
+
+    const first = cache.wrap("key", stale.load, { ttlSeconds, tags: ["t"] });
+    await new Promise((resolve) => setImmediate(resolve));
+    await cache.invalidateTags("t");
+    stale.resolve("stale");
+
+    // The caller still gets its value, but it isn't stored
+    assert.equal(await first, "stale");
+    assert.equal(await cache.get("key"), null);
+  });
+
+  test("a load overtaken by a delete leaves the newer load in flight", async () => {
+    const older = deferredLoad<string>();
+    const newer = deferredLoad<string>();
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    const first = cache.wrap("key", older.load, { ttlSeconds });
+    await settle();
+    await cache.delete("key");
+    const second = cache.wrap("key", newer.load, { ttlSeconds });
+    await settle();
+    older.resolve("old");
+    assert.equal(await first, "old");
+
+    // Later misses still share the newer load
+    const third = cache.wrap("key", newer.load, { ttlSeconds });
+    await settle();
+    newer.resolve("new");
+
+    assert.deepEqual(await Promise.all([second, third]), ["new", "new"]);
+    assert.equal(newer.calls, 1);
+    assert.equal(cache.stats().inFlight, 0);
+  });
+
+  test("counts hits and misses", async () => {
+    const before = cache.stats();
+
+    await cache.wrap("key", async () => "value", { ttlSeconds });
+    await cache.wrap("key", async () => "other", { ttlSeconds });
+
+    const after = cache.stats();
+    assert.equal(after.misses - before.misses, 1);
+    assert.equal(after.hits - before.hits, 1);
+    assert.equal(after.backend, "memory");
+  });
+});
@@ -1,25 +1,56 @@
 /**
- * Simple in-memory cache with automatic expiration
- * Used to reduce database load for frequently accessed data
+ * Cache with automatic expiration, used to reduce database load for
+ * frequently accessed data
+ * Backed by process memory, or by Redis so all cluster workers share entries
+ * (config.cacheBackend)
+ * Entries can be tagged (e.g. with the posts they show) so a change can drop
+ * every entry that depends on it at once
  */
+import crypto from "crypto";
+import type Redis from "ioredis";
+import { config } from "../config";
+import { getRedis, getRedisSubscriber, isRedisReady } from "./redis";
+
+/**
+ * Storage operations, the same for every backend
+ */
+interface CacheBackend {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  invalidateTags(tags: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
 
 type CacheEntry<T> = {
   value: T;
   expiry: number;
+  tags: string[];
 };
 
 class MemoryCache {
   private cache: Map<string, CacheEntry<any>> = new Map();
 
+  // Tag -> keys of the entries carrying it
+  private tagIndex: Map<string, Set<string>> = new Map();
+
   /**
    * Set a value in the cache with expiration
    * @param key Cache key
    * @param value Value to store
    * @param ttlSeconds Time to live in seconds (default: 60s)
+   * @param tags Tags to invalidate the entry by
    */
-  set<T>(key: string, value: T, ttlSeconds: number = 60): void {
+  set<T>(key: string, value: T, ttlSeconds: number = 60, tags: string[] = []): void {
+    // Drop the previous entry's tags
+    this.delete(key);
+
     const expiry = Date.now() + ttlSeconds * 1000;
-    this.cache.set(key, { value, expiry });
+    this.cache.set(key, { value, expiry, tags });
+    for (const tag of tags) {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag).add(key);
+    }
 
     // Auto cleanup after expiry
     if (ttlSeconds > 0) {
@@ -39,7 +70,7 @@ class MemoryCache {
 
     // Return null if entry doesn't exist or is expired
     if (!entry || entry.expiry < Date.now()) {
-      if (entry) this.cache.delete(key);
+      if (entry) this.delete(key);
       return null;
     }
 
@@ -51,7 +82,25 @@ class MemoryCache {
    * @param key Cache key
    */
   delete(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+
     this.cache.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && !keys.size) this.tagIndex.delete(tag);
+    }
+  }
+
+  /**
+   * Delete every entry carrying any of the tags
+   * @returns The deleted keys
+   */
+  invalidateTags(tags: string[]): string[] {
+    const keys = new Set(tags.flatMap((tag) => [...(this.tagIndex.get(tag) || [])]));
+    for (const key of keys) this.delete(key);
+    return [...keys];
   }
 
   /**
@@ -61,7 +110,7 @@ class MemoryCache {
   private deleteIfExpired(key: string): void {
     const entry = this.cache.get(key);
     if (entry && entry.expiry < Date.now()) {
-      this.cache.delete(key);
+      this.delete(key);
     }
   }
 
@@ -70,6 +119,7 @@ class MemoryCache {
    */
   clear(): void {
     this.cache.clear();
+    this.tagIndex.clear();
   }
 
   /**
@@ -80,5 +130,401 @@ class MemoryCache {
   }
 }
 
+/**
+ * Per-process backend (development, or a single worker)
+ */
+class MemoryBackend implements CacheBackend {
+  private local = new MemoryCache();
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.local.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void> {
+    this.local.set(key, value, ttlSeconds, tags);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.local.delete(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    this.local.invalidateTags(tags);
+  }
+
+  async clear(): Promise<void> {
+    this.local.clear();
+  }
+}
+
+// Prefix for cache entries in Redis
+const REDIS_KEY_PREFIX = "cache:";
+
+// Prefix for tag sets in Redis: each holds the keys of the entries carrying the tag
+const REDIS_TAG_PREFIX = "cache-tag:";
+
+// Tag sets outlive their entries by up to this long; stale members are harmless
+const TAG_SET_TTL = 24 * 60 * 60; // 1 day
+
+// Pub/sub channel invalidations are broadcast on
+const INVALIDATION_CHANNEL = "cache:invalidate";
+
+// How long a worker keeps its own copy of an entry read from Redis, saving a
+// round trip on hot keys; deletes reach other workers at once via pub/sub,
+// overwrites within this time
+const LOCAL_TTL = Number(process.env.CACHE_LOCAL_TTL_SECONDS || 5);
+
+/**
+ * Message broadcast when entries are deleted
+ */
+type Invalidation = { origin: string; keys: string[] } | { origin: string; all: true };
+
+/**
+ * JSON.stringify replacer that keeps Dates distinguishable from strings
+ */
+function encodeDates(this: any, key: string, value: unknown) {
+  return this[key] instanceof Date ? { $date: value } : value;
+}
+
+/**
+ * JSON.parse reviver restoring Dates encoded by encodeDates
+ */
+function decodeDates(key: string, value: any) {
+  return value && typeof value === "object" && typeof value.$date === "string"
+    ? new Date(value.$date)
+    : value;
+}
+
+/**
+ * Redis backend shared by all workers
+ * Entries live in Redis as JSON, with a short-lived copy in each worker that
+ * read them. While Redis is unreachable each worker carries on with its own
+ * copies; they're dropped when Redis comes back, since invalidations sent in
+ * the meantime were missed.
+ */
+class RedisBackend implements CacheBackend {
+  private local = new MemoryCache();
+
+  // Identifies this worker's own invalidation messages
+  private readonly origin = crypto.randomUUID();
+
+  constructor(
+    private redis: Redis,
+    subscriber: Redis
+  ) {
+    subscriber.subscribe(INVALIDATION_CHANNEL).catch((error) => {
+      console.error("Failed to subscribe to cache invalidations:", error);
+    });
+    subscriber.on("message", (channel, message) => {
+      if (channel === INVALIDATION_CHANNEL) this.onInvalidation(message);
+    });
+    redis.on("ready", () => this.local.clear());
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const local = this.local.get<T>(key);
+    if (local !== null || !isRedisReady()) return local;
+
+    try {
+      const [raw, ttlMs] = await Promise.all([
+        this.redis.get(REDIS_KEY_PREFIX + key),
+        this.redis.pttl(REDIS_KEY_PREFIX + key),
+      ]);
+      if (raw === null) return null;
+
+      const value = JSON.parse(raw, decodeDates) as T;
+      this.local.set(key, value, Math.min(LOCAL_TTL, Math.max(ttlMs, 0) / 1000));
+      return value;
+    } catch (error) {
+      console.error(`Cache read of ${key} failed:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void> {
+    if (!isRedisReady()) {
+      this.local.set(key, value, ttlSeconds, tags);
+      return;
+    }
+
+    this.local.set(key, value, Math.min(LOCAL_TTL, ttlSeconds), tags);
+    try {
+      const write = this.redis
+        .multi()
+        .set(
+          REDIS_KEY_PREFIX + key,
+          JSON.stringify(value, encodeDates),
+          "PX",
+          Math.round(ttlSeconds * 1000)
+        );
+      for (const tag of tags) {
+        write.sadd(REDIS_TAG_PREFIX + tag, key).expire(REDIS_TAG_PREFIX + tag, TAG_SET_TTL);
+      }
+      await write.exec();
+    } catch (error) {
+      // Keep the full TTL locally, as if Redis were down
+      this.local.set(key, value, ttlSeconds, tags);
+      console.error(`Cache write of ${key} failed:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.local.delete(key);
+    await this.broadcast(
+      () => this.redis.del(REDIS_KEY_PREFIX + key),
+      { origin: this.origin, keys: [key] }
+    );
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    const localKeys = this.local.invalidateTags(tags);
+    if (!isRedisReady()) return;
+
+    try {
+      const tagKeys = tags.map((tag) => REDIS_TAG_PREFIX + tag);
+      const members = await Promise.all(tagKeys.map((tagKey) => this.redis.smembers(tagKey)));
+      const keys = [...new Set([...localKeys, ...members.flat()])];
+
+      await this.broadcast(
+        () => this.redis.unlink(...tagKeys, ...keys.map((key) => REDIS_KEY_PREFIX + key)),
+        { origin: this.origin, keys }
+      );
+    } catch (error) {
+      console.error("Cache invalidation failed:", error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.local.clear();
+    await this.broadcast(
+      async () => {
+        // Only our own keys: the database may be shared with other data
+        for (const prefix of [REDIS_KEY_PREFIX, REDIS_TAG_PREFIX]) {
+          let cursor = "0";
+          do {
+            const [next, keys] = await this.redis.scan(cursor, "MATCH", `${prefix}*`, "COUNT", 500);
+            if (keys.length) await this.redis.unlink(...keys);
+            cursor = next;
+          } while (cursor !== "0");
+        }
+      },
+      { origin: this.origin, all: true }
+    );
+  }
+
+  /**
+   * Apply a change in Redis and tell the other workers to drop their copies
+   */
+  private async broadcast(change: () => Promise<unknown>, message: Invalidation) {
+    if (!isRedisReady()) return;
+    try {
+      await change();
+      await this.redis.publish(INVALIDATION_CHANNEL, JSON.stringify(message));
+    } catch (error) {
+      console.error("Cache invalidation failed:", error);
+    }
+  }
+
+  /**
+   * Drop local copies another worker invalidated
+   */
+  private onInvalidation(raw: string) {
+    let message: Invalidation;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (message.origin === this.origin) return;
+
+    if ("all" in message) {
+      this.local.clear();
+    } else {
+      for (const key of message.keys) this.local.delete(key);
+    }
+  }
+}
+
+/**
+ * Options for Cache.set and Cache.wrap
+ */
+export interface CacheSetOptions {
+  ttlSeconds?: number; // Default 60
+  tags?: string[];
+}
+
+/**
+ * Options for Cache.wrap; tags can depend on the loaded value
+ */
+export interface CacheWrapOptions<T> {
+  ttlSeconds?: number; // Default 60
+  tags?: string[] | ((value: T) => string[]);
+}
+
+/**
+ * The cache used by the app: a backend plus request coalescing and hit/miss
+ * counters (which are per process, like the coalescing)
+ */
+class Cache {
+  private backend: CacheBackend | null = null;
+
+  // Loads in progress, so concurrent misses on one key share a single load
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+
+  // Bumped by every invalidation; loads that started before one don't cache their result
+  private generation = 0;
+
+  private counters = { hits: 0, misses: 0, coalesced: 0, invalidations: 0 };
+  private readonly countingSince = new Date();
+
+  /**
+   * Get a value from the cache
+   * @returns The cached value or null if not found or expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.getBackend().get<T>(key);
+    if (value === null) this.counters.misses++;
+    else this.counters.hits++;
+    return value;
+  }
+
+  /**
+   * Set a value in the cache
+   * @param ttlSeconds Time to live in seconds (default: 60s), or options with tags
+   */
+  async set<T>(key: string, value: T, ttlSeconds?: number | CacheSetOptions): Promise<void> {
+    const options = typeof ttlSeconds === "object" ? ttlSeconds : { ttlSeconds };
+    await this.getBackend().set(key, value, options.ttlSeconds ?? 60, options.tags || []);
+  }
+
+  /**
+   * Get a value, loading and caching it on a miss
+   * Concurrent misses on the same key wait for one load instead of each
+   * running their own query. Null results aren't cached.
+   */
+  async wrap<T>(
+    key: string,
+    load: () => Promise<T | null>,
+    options: CacheWrapOptions<T> = {}
+  ): Promise<T | null> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) return cached;
+
+    const pending = this.inFlight.get(key) as Promise<T | null> | undefined;
+    if (pending) {
+      this.counters.coalesced++;
+      return pending;
+    }
+
+    const startedAt = this.generation;
+    const loading = (async () => {
+      try {
+        const value = await load();
+        if (value !== null && value !== undefined && startedAt === this.generation) {
+          const tags = typeof options.tags === "function" ? options.tags(value) : options.tags;
+          await this.set(key, value, { ttlSeconds: options.ttlSeconds, tags });
+        }
+        return value ?? null;
+      } finally {
+        // A delete may have replaced this load with a newer one; leave that in place
+        if (this.inFlight.get(key) === loading) this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, loading);
+    return loading;
+  }
+
+  /**
+   * Delete a key from the cache
+   */
+  async delete(key: string): Promise<void> {
+    this.generation++;
+    this.inFlight.delete(key);
+    await this.getBackend().delete(key);
+  }
+
+  /**
+   * Delete every entry carrying any of the tags, on all workers
+   */
+  async invalidateTags(...tags: string[]): Promise<void> {
+    this.counters.invalidations++;
+    this.generation++;
+    this.inFlight.clear();
+    await this.getBackend().invalidateTags(tags);
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    this.inFlight.clear();
+    await this.getBackend().clear();
+  }
+
+  /**
+   * Hit/miss counters for this process
+   */
+  stats() {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      backend: this.getBackend() instanceof RedisBackend ? "redis" : "memory",
+      pid: process.pid,
+      since: this.countingSince,
+      ...this.counters,
+      hitRate: lookups ? Math.round((this.counters.hits / lookups) * 1000) / 1000 : null,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  /**
+   * Create the configured backend on first use
+   */
+  private getBackend(): CacheBackend {
+    if (!this.backend) {
+      const redis = config.cacheBackend === "redis" ? getRedis() : null;
+      if (config.cacheBackend === "redis" && !redis) {
+        console.warn("⚠️ CACHE_BACKEND is redis but REDIS_URL isn't set; using memory cache");
+      }
+      this.backend = redis ? new RedisBackend(redis, getRedisSubscriber()) : new MemoryBackend();
+    }
+    return this.backend;
+  }
+}
+
 // Export a singleton cache instance
-export const cache = new MemoryCache();
+export const cache = new Cache();
+
+// Tag on every cached listing of published posts (lists, search, feeds, sitemaps)
+export const BLOG_LIST_TAG = "blog-list";
+
+/**
+ * Tag on cached entries showing one blog post (the post, its slug mappings)
+ */
+export function blogCacheTag(id: string): string {
+  return `blog:${id}`;
+}
+
+/**
+ * Drop everything cached about a blog post, and every listing, after a
+ * change that affects what the public site shows
+ */
+export async function invalidateBlogCache(id: string): Promise<void> {
+  await cache.invalidateTags(blogCacheTag(id), BLOG_LIST_TAG);
+}
+
+/**
+ * Get a cache key for a single blog post
+ */
+export function getBlogPostCacheKey(id: string): string {
+  return `blog_post_${id}`;
+}
+
+/**
+ * Get a cache key for a slug -> post ID mapping
+ * Only the mapping is cached under the slug; the post itself is cached by ID
+ * so slug and ID lookups always serve the same entry
+ */
+export function getBlogSlugCacheKey(slug: string): string {
+  return `blog_slug_${slug}`;
+}
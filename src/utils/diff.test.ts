@@ -0,0 +1,88 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { diffStats, diffText, DiffPart } from "./diff";
+
+/**
+ * Rebuild one side of a diff
+ */
+function side(parts: DiffPart[], which: "before" | "after"): string {
+  const skip = which === "before" ? "insert" : "delete";
+  return parts
+    .filter((part) => part.type !== skip)
+    .map((part) => part.value)
+    .join("");
+}
+
+describe("diffText", () => {
+  test("reports identical texts as one unchanged part", () => {
+    assert.deepEqual(diffText("a\nb\n", "a\nb\n"), [{ type: "equal", value: "a\nb\n" }]);
+    assert.deepEqual(diffText("", ""), []);
+  });
+
+  test("diffs by line, keeping the newlines", () => {
+    const parts = diffText("one\ntwo\nthree\n", "one\n2\nthree\nfour");
+
+    assert.deepEqual(parts, [
+      { type: "equal", value: "one\n" },
+      { type: "delete", value: "two\n" },
+      { type: "insert", value: "2\n" },
+      { type: "equal", value: "three\n" },
+      { type: "insert", value: "four" },
+    ]);
+  });
+
+  test("diffs by word, keeping the whitespace", () => {
+    const parts = diffText("the quick brown fox", "the slow brown dog", "word");
+
+    assert.deepEqual(parts, [
+      { type: "equal", value: "the " },
+      { type: "delete", value: "quick " },
+      { type: "insert", value: "slow " },
+      { type: "equal", value: "brown " },
+      { type: "delete", value: "fox" },
+      { type: "insert", value: "dog" },
+    ]);
+  });
+
+  test("treats a missing side as empty", () => {
+    assert.deepEqual(diffText(null, "new\n"), [{ type: "insert", value: "new\n" }]);
+    assert.deepEqual(diffText("old\n", undefined), [{ type: "delete", value: "old\n" }]);
+  });
+
+  test("always reproduces both texts", () => {
+    const before = "# Title\n\nFirst paragraph.\nSecond line\n\n- a\n- b\n";
+    const after = "# New title\n\nFirst paragraph.\n\n- a\n- c\n- b\nTrailer";
+
+    for (const mode of ["line", "word"] as const) {
+      const parts = diffText(before, after, mode);
+      assert.equal(side(parts, "before"), before);
+      assert.equal(side(parts, "after"), after);
+    }
+  });
+
+  test("keeps the longest common run of lines unchanged", () => {
+    const parts = diffText("a\nb\nc\nd\n", "b\nc\nx\nd\n");
+
+    assert.equal(
+      parts
+        .filter((part) => part.type === "equal")
+        .map((part) => part.value)
+        .join(""),
+      "b\nc\nd\n"
+    );
+  });
+});
+
+describe("diffStats", () => {
+  test("counts inserted and deleted lines", () => {
+    const parts = diffText("one\ntwo\nthree\n", "one\n2\n3\nthree\n");
+
+    assert.deepEqual(diffStats(parts), { insertions: 2, deletions: 1 });
+  });
+
+  test("counts words in word mode", () => {
+    const parts = diffText("a b c", "a x y c", "word");
+
+    assert.deepEqual(diffStats(parts, "word"), { insertions: 2, deletions: 1 });
+  });
+});
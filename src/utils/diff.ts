@@ -0,0 +1,132 @@
+// Line and word diffs between two texts
+
+/**
+ * A run of unchanged, inserted or deleted text
+ */
+export type DiffPart = {
+  type: "equal" | "insert" | "delete";
+  value: string;
+};
+
+/**
+ * Diff granularity
+ */
+export type DiffMode = "line" | "word";
+
+// Upper bound on the LCS table size; larger diffs fall back to replace-all
+const MAX_TABLE_CELLS = 16000000;
+
+/**
+ * Split text into diff tokens
+ * Lines keep their trailing newline; words keep their trailing whitespace,
+ * so joining the tokens always reproduces the original text
+ */
+function tokenize(text: string, mode: DiffMode): string[] {
+  if (!text) return [];
+  const pattern = mode === "line" ? /[^\n]*\n|[^\n]+$/g : /\s+|\S+\s*/g;
+  return text.match(pattern) || [];
+}
+
+/**
+ * Append a token to the result, merging it into the previous part if the type matches
+ */
+function push(parts: DiffPart[], type: DiffPart["type"], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+/**
+ * Compute a diff between two texts using a longest-common-subsequence table
+ * Common prefix and suffix tokens are trimmed first to keep the table small
+ * @param before Old text
+ * @param after New text
+ * @param mode "line" or "word" granularity (default "line")
+ */
+export function diffText(
+  before: string,
+  after: string,
+  mode: DiffMode = "line"
+): DiffPart[] {
+  const a = tokenize(before || "", mode);
+  const b = tokenize(after || "", mode);
+  const parts: DiffPart[] = [];
+
+  // Trim common prefix and suffix
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  for (let i = 0; i < start; i++) push(parts, "equal", a[i]);
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_TABLE_CELLS) {
+    // Too large to align token by token: report a wholesale replacement
+    for (let i = start; i < endA; i++) push(parts, "delete", a[i]);
+    for (let j = start; j < endB; j++) push(parts, "insert", b[j]);
+  } else {
+    // lcs[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    // Walk the table from the top-left, preferring deletions before insertions
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        push(parts, "equal", a[start + i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push(parts, "delete", a[start + i]);
+        i++;
+      } else {
+        push(parts, "insert", b[start + j]);
+        j++;
+      }
+    }
+    for (; i < n; i++) push(parts, "delete", a[start + i]);
+    for (; j < m; j++) push(parts, "insert", b[start + j]);
+  }
+
+  for (let i = endA; i < a.length; i++) push(parts, "equal", a[i]);
+
+  return parts;
+}
+
+/**
+ * Count inserted and deleted tokens in a diff
+ */
+export function diffStats(
+  parts: DiffPart[],
+  mode: DiffMode = "line"
+): { insertions: number; deletions: number } {
+  let insertions = 0;
+  let deletions = 0;
+
+  for (const part of parts) {
+    const count = tokenize(part.value, mode).length;
+    if (part.type === "insert") insertions += count;
+    if (part.type === "delete") deletions += count;
+  }
+
+  return { insertions, deletions };
+}
@@ -0,0 +1,195 @@
+// Syndication feeds (RSS 2.0, Atom 1.0 and JSON Feed 1.1) for published posts
+import crypto from "crypto";
+import { postUrl } from "../config";
+
+export const FEED_FORMATS = ["rss", "atom", "json"] as const;
+
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+/**
+ * Content-Type sent for each format
+ */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/**
+ * The post fields feeds use
+ */
+export interface FeedPost {
+  id: string;
+  title: string;
+  slug: string;
+  summary: string | null;
+  content: string; // Sanitized HTML
+  authorName: string;
+  submissionDate: Date;
+  publishedAt: Date | null;
+  lastModified: Date;
+  tags?: { name: string; slug: string }[];
+  categories?: { name: string; slug: string }[];
+}
+
+/**
+ * Feed-level metadata
+ */
+export interface FeedMeta {
+  title: string;
+  description: string;
+  siteUrl: string; // Public site home page
+  feedUrl: string; // URL of this feed
+  updated: Date;
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ * Also drops characters XML 1.0 doesn't allow at all
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * When a post went public; posts published before publishedAt was recorded
+ * fall back to their submission date
+ */
+function publishedDate(post: FeedPost): Date {
+  return post.publishedAt || post.submissionDate;
+}
+
+/**
+ * Category labels for a post (its categories, then its tags)
+ */
+function labels(post: FeedPost): string[] {
+  return [...(post.categories || []), ...(post.tags || [])].map((term) => term.name);
+}
+
+/**
+ * Render an RSS 2.0 feed
+ * Post HTML goes in content:encoded as escaped text, which every reader decodes
+ */
+export function renderRss(meta: FeedMeta, posts: FeedPost[]): string {
+  const items = posts.map((post) => {
+    const url = postUrl(post.slug);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(`urn:uuid:${post.id}`)}</guid>`,
+      `      <pubDate>${publishedDate(post).toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(post.authorName)}</dc:creator>`,
+      ...labels(post).map((label) => `      <category>${escapeXml(label)}</category>`),
+      post.summary ? `      <description>${escapeXml(post.summary)}</description>` : null,
+      `      <content:encoded>${escapeXml(post.content)}</content:encoded>`,
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render an Atom 1.0 feed
+ */
+export function renderAtom(meta: FeedMeta, posts: FeedPost[]): string {
+  const entries = posts.map((post) => {
+    const url = postUrl(post.slug);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(url)}"/>`,
+      `    <id>urn:uuid:${escapeXml(post.id)}</id>`,
+      `    <published>${publishedDate(post).toISOString()}</published>`,
+      `    <updated>${post.lastModified.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(post.authorName)}</name></author>`,
+      ...labels(post).map((label) => `    <category term="${escapeXml(label)}"/>`),
+      post.summary ? `    <summary>${escapeXml(post.summary)}</summary>` : null,
+      `    <content type="html">${escapeXml(post.content)}</content>`,
+      "  </entry>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <id>${escapeXml(meta.feedUrl)}</id>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.siteUrl)}"/>`,
+    `  <updated>${meta.updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render a JSON Feed 1.1 document
+ */
+export function renderJsonFeed(meta: FeedMeta, posts: FeedPost[]): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.siteUrl,
+    feed_url: meta.feedUrl,
+    items: posts.map((post) => ({
+      id: post.id,
+      url: postUrl(post.slug),
+      title: post.title,
+      summary: post.summary || undefined,
+      content_html: post.content,
+      date_published: publishedDate(post).toISOString(),
+      date_modified: post.lastModified.toISOString(),
+      authors: [{ name: post.authorName }],
+      tags: labels(post),
+    })),
+  });
+}
+
+/**
+ * Render a feed in the given format
+ */
+export function renderFeed(format: FeedFormat, meta: FeedMeta, posts: FeedPost[]): string {
+  switch (format) {
+    case "rss":
+      return renderRss(meta, posts);
+    case "atom":
+      return renderAtom(meta, posts);
+    case "json":
+      return renderJsonFeed(meta, posts);
+  }
+}
+
+/**
+ * Strong ETag for a rendered feed body
+ */
+export function feedETag(body: string): string {
+  return `"${crypto.createHash("sha1").update(body).digest("base64url")}"`;
+}
@@ -0,0 +1,152 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import {
+  BLOG_STATUSES,
+  canTransition,
+  InvalidTransitionError,
+  isBlogStatus,
+  transitionBlog,
+  TRANSITIONS,
+} from "./lifecycle";
+
+describe("transition rules", () => {
+  test("every status has rules and only moves to known statuses", () => {
+    assert.deepEqual(Object.keys(TRANSITIONS).sort(), [...BLOG_STATUSES].sort());
+    for (const [from, targets] of Object.entries(TRANSITIONS)) {
+      for (const to of targets) {
+        assert.ok(isBlogStatus(to), `${from} -> ${to}`);
+        assert.notEqual(to, from);
+      }
+    }
+  });
+
+  test("allows the review and publishing paths", () => {
+    assert.ok(canTransition("pending", "approved"));
+    assert.ok(canTransition("pending", "changes_requested"));
+    assert.ok(canTransition("changes_requested", "pending"));
+    assert.ok(canTransition("approved", "scheduled"));
+    assert.ok(canTransition("scheduled", "published"));
+    assert.ok(canTransition("published", "archived"));
+    assert.ok(canTransition("archived", "published"));
+    assert.ok(canTransition("rejected", "pending"));
+  });
+
+  test("refuses shortcuts and unknown statuses", () => {
+    assert.equal(canTransition("rejected", "published"), false);
+    assert.equal(canTransition("changes_requested", "approved"), false);
+    assert.equal(canTransition("archived", "scheduled"), false);
+    assert.equal(canTransition("published", "published"), false);
+    assert.equal(canTransition("pending", "deleted"), false);
+    assert.equal(canTransition("draft", "pending"), false);
+  });
+
+  test("InvalidTransitionError lists where the post could go instead", () => {
+    const error = new InvalidTransitionError("rejected", "published");
+
+    assert.equal(error.name, "InvalidTransitionError");
+    assert.equal(error.message, 'Cannot change status from "rejected" to "published"');
+    assert.deepEqual(error.allowed, ["pending"]);
+    assert.deepEqual(new InvalidTransitionError("bogus", "pending").allowed, []);
+  });
+});
+
+describe("transitionBlog", requiresDatabase, () => {
+  const createBlog = async (status: string) => {
+    const [blog] = await db
+      .insert(blogs)
+      .values({
+        title: "Hello",
+        slug: `hello-${status}`,
+        content: "<p>World</p>",
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        status,
+      })
+      .returning()
+      .execute();
+    return blog;
+  };
+
+  const transition = (id: string, to: string, options = {}) =>
+    db.transaction((tx) => transitionBlog(tx, id, to, options));
+
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+  beforeEach(resetTestDatabase);
+
+  test("publishes a pending post and dates the acceptance", async () => {
+    const { id } = await createBlog("pending");
+
+    const { previous, blog } = await transition(id, "published", { adminNotes: "Nice" });
+
+    assert.equal(previous.status, "pending");
+    assert.equal(blog.status, "published");
+    assert.equal(blog.adminNotes, "Nice");
+    assert.ok(blog.approvalDate);
+    assert.ok(blog.publishedAt);
+  });
+
+  test("throws InvalidTransitionError and leaves the post alone", async () => {
+    const { id } = await createBlog("rejected");
+
+    await assert.rejects(transition(id, "published"), (error: unknown) => {
+      assert.ok(error instanceof InvalidTransitionError);
+      assert.equal(error.from, "rejected");
+      assert.equal(error.to, "published");
+      return true;
+    });
+
+    const [blog] = await db.select().from(blogs).where(eq(blogs.id, id)).execute();
+    assert.equal(blog.status, "rejected");
+  });
+
+  test("scheduling needs a publishAt time in the future", async () => {
+    const { id } = await createBlog("approved");
+
+    await assert.rejects(
+      transition(id, "scheduled", { publishAt: new Date(Date.now() - 60 * 1000) }),
+      /Scheduling requires a publishAt time in the future/
+    );
+
+    const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+    const { blog } = await transition(id, "scheduled", { publishAt });
+    assert.equal(blog.status, "scheduled");
+    assert.equal(blog.publishAt.getTime(), publishAt.getTime());
+  });
+
+  test("keeps the first publication date when an archived post comes back", async () => {
+    const { id } = await createBlog("pending");
+    const { blog: published } = await transition(id, "published");
+    await transition(id, "archived");
+
+    const { blog } = await transition(id, "published");
+
+    assert.equal(blog.publishedAt.getTime(), published.publishedAt.getTime());
+    assert.equal(blog.approvalDate.getTime(), published.approvalDate.getTime());
+  });
+
+  test("sending a post back to review clears its approval and schedule", async () => {
+    const { id } = await createBlog("approved");
+    await transition(id, "scheduled", { publishAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+    const { blog } = await transition(id, "pending");
+
+    assert.equal(blog.approvalDate, null);
+    assert.equal(blog.publishAt, null);
+  });
+
+  test("returns null for posts that don't exist", async () => {
+    assert.equal(await transition(crypto.randomUUID(), "approved"), null);
+  });
+});
@@ -0,0 +1,150 @@
+// Blog post lifecycle: statuses and the transitions allowed between them
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { Transaction } from "../db";
+import { blogs } from "../schema";
+
+/**
+ * Every status a blog post can be in
+ *   - pending: submitted, awaiting review
+ *   - changes_requested: sent back to the author for edits
+ *   - approved: accepted but not yet live
+ *   - scheduled: goes live at publish_at (see jobs/publish-scheduled.ts)
+ *   - published: publicly visible
+ *   - archived: taken down after being published
+ *   - rejected: declined
+ */
+export const BLOG_STATUSES = [
+  "pending",
+  "changes_requested",
+  "approved",
+  "scheduled",
+  "published",
+  "archived",
+  "rejected",
+] as const;
+
+export type BlogStatus = (typeof BLOG_STATUSES)[number];
+
+// The only status visible on public routes
+export const PUBLIC_STATUS: BlogStatus = "published";
+
+// Statuses in which a post has been accepted by a moderator
+const ACCEPTED_STATUSES: readonly string[] = ["approved", "scheduled", "published"];
+
+/**
+ * Statuses each status may move to
+ */
+export const TRANSITIONS: Record<BlogStatus, readonly BlogStatus[]> = {
+  pending: ["changes_requested", "approved", "scheduled", "published", "rejected"],
+  changes_requested: ["pending", "rejected"],
+  approved: ["pending", "scheduled", "published", "rejected"],
+  scheduled: ["approved", "published", "pending"],
+  published: ["archived", "pending"],
+  archived: ["published", "pending"],
+  rejected: ["pending"],
+};
+
+/**
+ * Options for a status change
+ */
+export interface TransitionOptions {
+  // Note for the author / other admins (replaces the previous note)
+  adminNotes?: string | null;
+  // Required when moving to "scheduled"; must be in the future
+  publishAt?: Date;
+}
+
+/**
+ * Error thrown when a status change isn't allowed
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    message: string = `Cannot change status from "${from}" to "${to}"`
+  ) {
+    super(message);
+    this.name = "InvalidTransitionError";
+  }
+
+  // Statuses the post could have moved to instead
+  get allowed(): readonly BlogStatus[] {
+    return isBlogStatus(this.from) ? TRANSITIONS[this.from] : [];
+  }
+}
+
+/**
+ * Check whether a value is a known blog status
+ */
+export function isBlogStatus(value: unknown): value is BlogStatus {
+  return BLOG_STATUSES.includes(value as BlogStatus);
+}
+
+/**
+ * Check whether a post may move from one status to another
+ */
+export function canTransition(from: string, to: string): boolean {
+  return isBlogStatus(from) && isBlogStatus(to) && TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a post to a new status, enforcing the allowed transitions
+ * Locks the row, so concurrent changes are applied one after the other
+ * @returns The post before and after the change, or null if it doesn't exist
+ *          or is in the trash
+ * @throws InvalidTransitionError if the transition isn't allowed
+ */
+export async function transitionBlog(
+  tx: Transaction,
+  blogId: string,
+  to: string,
+  options: TransitionOptions = {}
+) {
+  const [previous] = await tx
+    .select({
+      status: blogs.status,
+      adminNotes: blogs.adminNotes,
+      publishAt: blogs.publishAt,
+    })
+    .from(blogs)
+    .where(and(eq(blogs.id, blogId), isNull(blogs.deletedAt)))
+    .for("update")
+    .execute();
+  if (!previous) return null;
+
+  if (!canTransition(previous.status, to)) {
+    throw new InvalidTransitionError(previous.status, to);
+  }
+
+  if (to === "scheduled" && !(options.publishAt && options.publishAt > new Date())) {
+    throw new InvalidTransitionError(
+      previous.status,
+      to,
+      "Scheduling requires a publishAt time in the future"
+    );
+  }
+
+  const [blog] = await tx
+    .update(blogs)
+    .set({
+      status: to,
+      adminNotes:
+        options.adminNotes !== undefined ? options.adminNotes || null : previous.adminNotes,
+      publishAt: to === "scheduled" ? options.publishAt : null,
+      // Acceptance keeps its first date; sending a post back to review clears it
+      approvalDate: ACCEPTED_STATUSES.includes(to)
+        ? sql`coalesce(${blogs.approvalDate}, now())`
+        : to === "archived"
+          ? undefined
+          : null,
+      // Re-publishing an archived post keeps its original publication date
+      publishedAt:
+        to === "published" ? sql`coalesce(${blogs.publishedAt}, now())` : undefined,
+      lastModified: new Date(),
+    })
+    .where(eq(blogs.id, blogId))
+    .returning()
+    .execute();
+
+  return { previous, blog };
+}
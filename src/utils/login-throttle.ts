@@ -0,0 +1,239 @@
+// Failed admin login tracking: exponential backoff and temporary account lockout
+import { and, desc, eq, gt, or, sql } from "drizzle-orm";
+import { db, Executor } from "../db";
+import { admins, loginAttempts } from "../schema";
+
+// Failures allowed before backoff kicks in
+const FREE_ATTEMPTS = 3;
+
+// Failures on one username before the account is locked
+export const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 10);
+
+// How long a locked account stays locked
+const LOCKOUT_SECONDS = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60;
+
+// Backoff never exceeds the lockout duration
+const MAX_BACKOFF_SECONDS = LOCKOUT_SECONDS;
+
+// Failure counters reset after this long without a new failure
+const FAILURE_WINDOW_SECONDS = 60 * 60; // 1 hour
+
+/**
+ * Usernames are compared trimmed and lowercased, so case variations share one
+ * counter and lock the same account
+ */
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Condition matching the account a login username refers to
+ * Usernames are unique on lower(username), so this is at most one account
+ */
+function matchesUsername(username: string) {
+  return sql`lower(${admins.username}) = ${normalizeUsername(username)}`;
+}
+
+/**
+ * Throttle keys for a login attempt
+ */
+function throttleKeys(ip: string, username: string) {
+  return {
+    ipKey: `ip:${ip}`,
+    userKey: `user:${normalizeUsername(username)}`.slice(0, 150),
+  };
+}
+
+/**
+ * Seconds to block further attempts after the given number of failures
+ */
+export function backoffSeconds(failures: number, isUserKey: boolean): number {
+  if (isUserKey && failures >= LOCKOUT_THRESHOLD) return LOCKOUT_SECONDS;
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(2 ** (failures - FREE_ATTEMPTS), MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * Check whether an attempt from this IP for this username is currently blocked
+ * Gives the same answer whether or not the username exists
+ * @returns Seconds until the next attempt is allowed, or 0 if not blocked
+ */
+export async function getLoginRetryAfter(
+  ip: string,
+  username: string
+): Promise<number> {
+  const { ipKey, userKey } = throttleKeys(ip, username);
+  const now = new Date();
+
+  const [attempts, accounts] = await Promise.all([
+    db
+      .select({ blockedUntil: loginAttempts.blockedUntil })
+      .from(loginAttempts)
+      .where(
+        and(
+          or(eq(loginAttempts.key, ipKey), eq(loginAttempts.key, userKey)),
+          gt(loginAttempts.blockedUntil, now)
+        )
+      )
+      .execute(),
+    db
+      .select({ blockedUntil: admins.lockedUntil })
+      .from(admins)
+      .where(and(matchesUsername(username), gt(admins.lockedUntil, now)))
+      .execute(),
+  ]);
+
+  const latest = [...attempts, ...accounts].reduce(
+    (max, row) => Math.max(max, row.blockedUntil.getTime()),
+    0
+  );
+
+  return latest ? Math.ceil((latest - now.getTime()) / 1000) : 0;
+}
+
+/**
+ * Bump a failure counter and block the key according to the backoff schedule
+ */
+async function recordKeyFailure(key: string, isUserKey: boolean) {
+  const [row] = await db
+    .insert(loginAttempts)
+    .values({ key, failures: 1 })
+    .onConflictDoUpdate({
+      target: loginAttempts.key,
+      set: {
+        // Start over if the last failure is outside the window
+        failures: sql`CASE
+          WHEN ${loginAttempts.lastFailedAt} < now() - make_interval(secs => ${FAILURE_WINDOW_SECONDS})
+          THEN 1
+          ELSE ${loginAttempts.failures} + 1
+        END`,
+        lastFailedAt: sql`now()`,
+      },
+    })
+    .returning({ failures: loginAttempts.failures })
+    .execute();
+
+  const seconds = backoffSeconds(row.failures, isUserKey);
+  if (seconds > 0) {
+    await db
+      .update(loginAttempts)
+      .set({ blockedUntil: new Date(Date.now() + seconds * 1000) })
+      .where(eq(loginAttempts.key, key))
+      .execute();
+  }
+}
+
+/**
+ * Record a failed login for the IP, the username and (if it exists) the account
+ */
+export async function recordLoginFailure(ip: string, username: string) {
+  const { ipKey, userKey } = throttleKeys(ip, username);
+
+  await Promise.all([
+    recordKeyFailure(ipKey, false),
+    recordKeyFailure(userKey, true),
+    // No-op for unknown usernames
+    db
+      .update(admins)
+      .set({
+        // An expired lockout starts a fresh count
+        failedLoginAttempts: sql`CASE
+          WHEN ${admins.lockedUntil} < now() THEN 1
+          ELSE ${admins.failedLoginAttempts} + 1
+        END`,
+        lockedUntil: sql`CASE
+          WHEN ${admins.lockedUntil} >= now() THEN ${admins.lockedUntil}
+          WHEN ${admins.lockedUntil} IS NULL AND ${admins.failedLoginAttempts} + 1 >= ${LOCKOUT_THRESHOLD}
+          THEN now() + make_interval(secs => ${LOCKOUT_SECONDS})
+          ELSE NULL
+        END`,
+      })
+      .where(matchesUsername(username))
+      .execute(),
+  ]);
+}
+
+/**
+ * Forget failures for a username after a successful login
+ * The IP counter is left to expire so one valid account can't reset it
+ */
+export async function clearLoginFailures(username: string) {
+  const { userKey } = throttleKeys("", username);
+
+  await Promise.all([
+    db.delete(loginAttempts).where(eq(loginAttempts.key, userKey)).execute(),
+    db
+      .update(admins)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(matchesUsername(username))
+      .execute(),
+  ]);
+}
+
+/**
+ * List locked accounts and currently blocked IPs/usernames
+ */
+export async function listLockouts() {
+  const now = new Date();
+
+  const [accounts, blockedKeys] = await Promise.all([
+    db
+      .select({
+        id: admins.id,
+        username: admins.username,
+        failedLoginAttempts: admins.failedLoginAttempts,
+        lockedUntil: admins.lockedUntil,
+      })
+      .from(admins)
+      .where(or(gt(admins.failedLoginAttempts, 0), gt(admins.lockedUntil, now)))
+      .orderBy(desc(admins.lockedUntil))
+      .execute(),
+    db
+      .select()
+      .from(loginAttempts)
+      .where(gt(loginAttempts.blockedUntil, now))
+      .orderBy(desc(loginAttempts.blockedUntil))
+      .execute(),
+  ]);
+
+  return { accounts, blockedKeys };
+}
+
+/**
+ * Unlock an admin account and clear its username counter
+ * @param executor Database or transaction to run the queries on
+ * @returns false if the admin doesn't exist
+ */
+export async function unlockAdmin(
+  adminId: string,
+  executor: Executor = db
+): Promise<boolean> {
+  const [admin] = await executor
+    .update(admins)
+    .set({ failedLoginAttempts: 0, lockedUntil: null })
+    .where(eq(admins.id, adminId))
+    .returning({ username: admins.username })
+    .execute();
+
+  if (!admin) return false;
+
+  const { userKey } = throttleKeys("", admin.username);
+  await executor
+    .delete(loginAttempts)
+    .where(eq(loginAttempts.key, userKey))
+    .execute();
+  return true;
+}
+
+/**
+ * Clear a single throttle key (e.g. "ip:203.0.113.7")
+ * @returns false if there was nothing to clear
+ */
+export async function clearLockoutKey(key: string): Promise<boolean> {
+  const deleted = await db
+    .delete(loginAttempts)
+    .where(eq(loginAttempts.key, key))
+    .returning({ key: loginAttempts.key })
+    .execute();
+  return deleted.length > 0;
+}
@@ -0,0 +1,40 @@
+// Post content formats and server-side Markdown rendering
+import MarkdownIt from "markdown-it";
+import footnote from "markdown-it-footnote";
+import { sanitize } from "./sanitize";
+import { mediaImageTransformer } from "../media";
+
+/**
+ * Formats authors can write posts in
+ */
+export const CONTENT_FORMATS = ["html", "markdown"] as const;
+
+export type ContentFormat = (typeof CONTENT_FORMATS)[number];
+
+// CommonMark plus GitHub-style tables and strikethrough, fenced code and footnotes
+// Raw HTML is allowed through to sanitize(), the same as for HTML submissions
+const markdown = new MarkdownIt({ html: true, linkify: true }).use(footnote);
+
+/**
+ * Render Markdown to (unsanitized) HTML
+ */
+export function renderMarkdown(source: string): string {
+  return markdown.render(source);
+}
+
+/**
+ * Turn what the author wrote into the stored fields
+ * Images referencing uploads ("media:<id>") are pointed at the stored files
+ * @returns Sanitized HTML content, and the raw source for Markdown posts
+ *          (HTML posts keep no separate source)
+ */
+export async function renderContent(
+  format: ContentFormat,
+  input: string
+): Promise<{ format: ContentFormat; content: string; source: string | null }> {
+  const html = format === "markdown" ? renderMarkdown(input) : input;
+  const transformImage = await mediaImageTransformer(html);
+  const content = sanitize(html, { transformImage });
+
+  return { format, content, source: format === "markdown" ? input : null };
+}
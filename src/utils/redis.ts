@@ -0,0 +1,87 @@
+// Redis connections shared by the cache and the rate limiters
+// Connections are opened on first use, so the cluster primary never opens one
+import Redis from "ioredis";
+import { config } from "../config";
+
+let client: Redis | null = null;
+let subscriber: Redis | null = null;
+
+/**
+ * Log connection state changes once each, rather than on every retry
+ */
+function watchConnection(connection: Redis, label: string) {
+  let available = true;
+
+  connection.on("ready", () => {
+    available = true;
+    console.log(`✅ Redis ${label} connected`);
+  });
+  connection.on("error", (error) => {
+    if (!available) return;
+    available = false;
+    console.error(`⚠️ Redis ${label} unavailable, falling back to per-process state:`, error.message);
+  });
+}
+
+/**
+ * Get the shared Redis client
+ * Commands fail straight away while disconnected (no offline queue), so
+ * callers can fall back instead of waiting
+ * @returns null when REDIS_URL isn't configured
+ */
+export function getRedis(): Redis | null {
+  if (!config.redisUrl) return null;
+
+  if (!client) {
+    client = new Redis(config.redisUrl, {
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times) => Math.min(times * 500, 5000), // Keep retrying, at most every 5s
+    });
+    watchConnection(client, "client");
+  }
+  return client;
+}
+
+/**
+ * Get the connection used for pub/sub subscriptions
+ * (a subscribed connection can't run other commands)
+ * Subscriptions are queued until connected and restored after reconnecting
+ * @returns null when REDIS_URL isn't configured
+ */
+export function getRedisSubscriber(): Redis | null {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  if (!subscriber) {
+    subscriber = redis.duplicate({ enableOfflineQueue: true, maxRetriesPerRequest: null });
+    watchConnection(subscriber, "subscriber");
+  }
+  return subscriber;
+}
+
+/**
+ * Whether the shared client can take commands right now
+ */
+export function isRedisReady(): boolean {
+  return client?.status === "ready";
+}
+
+/**
+ * Close the Redis connections (graceful shutdown)
+ */
+export async function closeRedis() {
+  const connections = [subscriber, client].filter(Boolean);
+  subscriber = null;
+  client = null;
+
+  for (const connection of connections) {
+    try {
+      await connection.quit();
+    } catch {
+      // Not connected; nothing to flush
+      connection.disconnect();
+    }
+  }
+  if (connections.length) console.log("Redis connections have been closed");
+}
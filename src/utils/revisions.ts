@@ -0,0 +1,176 @@
+// Blog revision history: recording, listing and applying content changes
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { db, Executor, Transaction } from "../db";
+import { blogs, blogRevisions } from "../schema";
+import { renameBlogSlug } from "./blog-slugs";
+import { ContentFormat } from "./markdown";
+
+/**
+ * The revisioned fields of a blog post
+ */
+export type RevisionFields = {
+  title: string;
+  summary: string | null;
+  content: string; // Sanitized HTML
+  format: ContentFormat;
+  source: string | null; // Markdown source; null for HTML posts
+};
+
+/**
+ * A requested change to a post's revisioned fields (omitted fields are unchanged)
+ * content, format and source go together: pass all three or none (see renderContent)
+ */
+export type ContentChange = Partial<RevisionFields>;
+
+/**
+ * Append a revision for a post's current fields
+ * Callers must hold a lock on the blog row so revision numbers don't collide
+ * @param tx Database or transaction to run the queries on
+ * @param blogId Blog post ID
+ * @param fields Title, summary, content and source as of this revision
+ * @param adminId Editing admin, or null for the author
+ * @param restoredFrom ID of the revision being restored, if any
+ */
+export async function recordRevision(
+  tx: Executor,
+  blogId: string,
+  fields: RevisionFields,
+  adminId: string | null,
+  restoredFrom: string | null = null
+) {
+  const [revision] = await tx
+    .insert(blogRevisions)
+    .values({
+      blogId,
+      revisionNumber: sql`(SELECT coalesce(max(${blogRevisions.revisionNumber}), 0) + 1 FROM ${blogRevisions} WHERE ${blogRevisions.blogId} = ${blogId})`,
+      title: fields.title,
+      summary: fields.summary,
+      content: fields.content,
+      format: fields.format,
+      source: fields.source,
+      adminId,
+      restoredFrom,
+    })
+    .returning()
+    .execute();
+
+  return revision;
+}
+
+/**
+ * Apply a title/summary/content change to a post and record it as a new revision
+ * Renames the slug when the title changes. No revision is written if nothing changed.
+ * @returns The updated post, its slug, title, summary and content before the
+ *          change and the new revision (null if nothing changed), or null if the
+ *          post doesn't exist or is in the trash
+ */
+export async function applyContentChange(
+  tx: Transaction,
+  blogId: string,
+  change: ContentChange,
+  adminId: string | null,
+  restoredFrom: string | null = null
+) {
+  const [existing] = await tx
+    .select({
+      slug: blogs.slug,
+      title: blogs.title,
+      summary: blogs.summary,
+      content: blogs.content,
+      format: blogs.format,
+      source: blogs.source,
+    })
+    .from(blogs)
+    .where(and(eq(blogs.id, blogId), isNull(blogs.deletedAt)))
+    .for("update")
+    .execute();
+  if (!existing) return null;
+
+  const next: RevisionFields = {
+    title: change.title ?? existing.title,
+    summary: change.summary !== undefined ? change.summary || null : existing.summary,
+    content: change.content ?? existing.content,
+    format: change.format ?? (existing.format as ContentFormat),
+    source: change.content !== undefined ? change.source ?? null : existing.source,
+  };
+
+  const changed =
+    next.title !== existing.title ||
+    next.summary !== existing.summary ||
+    next.content !== existing.content ||
+    next.format !== existing.format ||
+    next.source !== existing.source;
+
+  if (next.title !== existing.title) {
+    await renameBlogSlug(tx, blogId, existing.slug, next.title);
+  }
+
+  const [blog] = await tx
+    .update(blogs)
+    .set({ ...next, lastModified: new Date() })
+    .where(eq(blogs.id, blogId))
+    .returning()
+    .execute();
+
+  const revision = changed
+    ? await recordRevision(tx, blogId, next, adminId, restoredFrom)
+    : null;
+
+  return { blog, previousSlug: existing.slug, previous: existing, revision };
+}
+
+/**
+ * Pick the revisioned fields (plus slug) of a post, e.g. for audit snapshots
+ */
+export function contentSnapshot(
+  blog: Omit<RevisionFields, "format"> & { format: string; slug: string }
+) {
+  return {
+    slug: blog.slug,
+    title: blog.title,
+    summary: blog.summary,
+    content: blog.content,
+    format: blog.format,
+    source: blog.source,
+  };
+}
+
+/**
+ * List a post's revisions, newest first, without their content
+ */
+export async function listRevisions(blogId: string) {
+  return db
+    .select({
+      id: blogRevisions.id,
+      revisionNumber: blogRevisions.revisionNumber,
+      title: blogRevisions.title,
+      summary: blogRevisions.summary,
+      adminId: blogRevisions.adminId,
+      restoredFrom: blogRevisions.restoredFrom,
+      createdAt: blogRevisions.createdAt,
+      contentLength: sql<number>`length(${blogRevisions.content})::int`,
+    })
+    .from(blogRevisions)
+    .where(eq(blogRevisions.blogId, blogId))
+    .orderBy(desc(blogRevisions.revisionNumber))
+    .execute();
+}
+
+/**
+ * Get a single revision of a post by its revision number
+ */
+export async function getRevision(blogId: string, revisionNumber: number) {
+  const [revision] = await db
+    .select()
+    .from(blogRevisions)
+    .where(
+      and(
+        eq(blogRevisions.blogId, blogId),
+        eq(blogRevisions.revisionNumber, revisionNumber)
+      )
+    )
+    .limit(1)
+    .execute();
+
+  return revision || null;
+}
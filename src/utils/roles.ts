@@ -0,0 +1,74 @@
+// Admin roles and the permissions each role grants
+
+/**
+ * All admin roles, from most to least privileged
+ */
+export const ADMIN_ROLES = [
+  "superadmin",
+  "editor",
+  "moderator",
+  "viewer",
+] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * Actions guarded by role checks on admin routes
+ */
+export type Permission =
+  | "blogs:read" // List and view posts, revisions and diffs
+  | "blogs:edit" // Change content, title, summary, tags and categories
+  | "blogs:moderate" // Approve or reject posts
+  | "blogs:delete" // Delete posts
+  | "stats:read" // View dashboard statistics
+  | "admins:manage" // Manage other admin accounts
+  | "audit:read" // View and export the admin audit log
+  | "jobs:manage" // Inspect and retry background jobs
+  | "webhooks:manage"; // Manage outgoing webhooks and view their deliveries
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  superadmin: [
+    "blogs:read",
+    "blogs:edit",
+    "blogs:moderate",
+    "blogs:delete",
+    "stats:read",
+    "admins:manage",
+    "audit:read",
+    "jobs:manage",
+    "webhooks:manage",
+  ],
+  editor: [
+    "blogs:read",
+    "blogs:edit",
+    "blogs:moderate",
+    "blogs:delete",
+    "stats:read",
+  ],
+  moderator: ["blogs:read", "blogs:moderate", "stats:read"],
+  viewer: ["stats:read"],
+};
+
+/**
+ * Check whether a value is a known admin role
+ */
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * List the roles that grant a permission
+ */
+export function rolesWithPermission(permission: Permission): AdminRole[] {
+  return ADMIN_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
@@ -1,11 +1,55 @@
 // HTML sanitization utility
 import sanitizeHtml from "sanitize-html";
 
+// Footnote anchor IDs generated by the Markdown renderer ("fn1", "fnref1", "fnref1:2")
+const FOOTNOTE_ID = /^fn(ref)?\d+(:\d+)?$/;
+
+/**
+ * Drop id attributes other than footnote anchors, so content can't
+ * clobber element IDs used by the page around it
+ */
+const keepFootnoteIdOnly: sanitizeHtml.Transformer = (tagName, attribs) => {
+  if (attribs.id && !FOOTNOTE_ID.test(attribs.id)) {
+    const { id, ...rest } = attribs;
+    return { tagName, attribs: rest };
+  }
+  return { tagName, attribs };
+};
+
 // Define sanitization options once for better performance
-const SANITIZE_OPTIONS = {
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
   allowedTags: sanitizeHtml.defaults.allowedTags.concat(["img", "h1"]),
   allowedAttributes: {
     "*": ["href", "align", "alt", "src"],
+    // Uploaded images get a responsive srcset (see media/index.ts)
+    img: ["srcset", "sizes", "width", "height", "loading"],
+    // Rendered Markdown: table column alignment, code languages, footnote anchors
+    th: ["style"],
+    td: ["style"],
+    code: ["class"],
+    a: ["id", "class"],
+    sup: ["class"],
+    li: ["id", "class"],
+    section: ["class"],
+    ol: ["class"],
+    hr: ["class"],
+  },
+  allowedStyles: {
+    th: { "text-align": [/^(left|right|center)$/] },
+    td: { "text-align": [/^(left|right|center)$/] },
+  },
+  allowedClasses: {
+    code: ["language-*"],
+    a: ["footnote-backref"],
+    sup: ["footnote-ref"],
+    li: ["footnote-item"],
+    section: ["footnotes"],
+    ol: ["footnotes-list"],
+    hr: ["footnotes-sep"],
+  },
+  transformTags: {
+    a: keepFootnoteIdOnly,
+    li: keepFootnoteIdOnly,
   },
   // Additional performance optimizations
   parser: {
@@ -20,9 +64,18 @@ const SANITIZE_OPTIONS = {
  * Sanitizes HTML input to prevent XSS attacks
  * Allows some safe HTML tags and attributes
  * Optimized for performance
+ * @param options.transformImage Rewrite <img> tags before their attributes are filtered
  */
-export function sanitize(html: string): string {
+export function sanitize(
+  html: string,
+  options: { transformImage?: sanitizeHtml.Transformer } = {}
+): string {
   if (!html) return "";
-  return sanitizeHtml(html, SANITIZE_OPTIONS);
+  if (!options.transformImage) return sanitizeHtml(html, SANITIZE_OPTIONS);
+
+  return sanitizeHtml(html, {
+    ...SANITIZE_OPTIONS,
+    transformTags: { ...SANITIZE_OPTIONS.transformTags, img: options.transformImage },
+  });
 }
  
\ No newline at end of file
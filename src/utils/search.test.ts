@@ -0,0 +1,76 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { InvalidCursorError, searchBlogs } from "./search";
+
+describe("searchBlogs", requiresDatabase, () => {
+  const createBlog = (title: string, content: string) =>
+    db
+      .insert(blogs)
+      .values({
+        title,
+        slug: `post-${Math.random().toString(36).slice(2)}`,
+        content,
+        authorName: "Sam",
+        authorEmail: "sam@example.com",
+        ipAddress: "hashed",
+        status: "published",
+      })
+      .execute();
+
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+  beforeEach(resetTestDatabase);
+
+  test("escapes markup in titles and snippets, leaving only the highlights", async () => {
+    await createBlog(
+      '<img src=x onerror="alert(1)"> Cats & dogs',
+      '<p>Cats &amp; fish</p><img src=x onerror="alert(2)"'
+    );
+
+    const { rows } = await searchBlogs({ query: "cats", limit: 10 });
+
+    assert.equal(rows.length, 1);
+    assert.equal(
+      rows[0].titleHighlight,
+      "&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>Cats</mark> &amp; dogs"
+    );
+    assert.match(rows[0].snippet, /<mark>Cats<\/mark> &amp; fish/);
+    assert.doesNotMatch(rows[0].snippet, /<img/);
+    assert.match(rows[0].snippet, /&lt;img src=x onerror=&quot;alert/);
+  });
+
+  test("pages through results with the cursor", async () => {
+    await createBlog("Cats one", "<p>cats</p>");
+    await createBlog("Cats two", "<p>cats</p>");
+
+    const first = await searchBlogs({ query: "cats", limit: 1 });
+    const second = await searchBlogs({ query: "cats", limit: 1, cursor: first.nextCursor });
+
+    assert.ok(first.nextCursor);
+    assert.notEqual(second.rows[0].id, first.rows[0].id);
+  });
+
+  test("rejects cursors that don't hold a rank and a post ID", async () => {
+    const cursors = [
+      "not base64 json",
+      Buffer.from(JSON.stringify([0.5, "not-a-uuid"])).toString("base64url"),
+      Buffer.from(JSON.stringify(["0.5", crypto.randomUUID()])).toString("base64url"),
+    ];
+
+    for (const cursor of cursors) {
+      await assert.rejects(
+        searchBlogs({ query: "cats", limit: 10, cursor }),
+        InvalidCursorError
+      );
+    }
+  });
+});
@@ -0,0 +1,125 @@
+// Full-text search over blog posts
+import {
+  and,
+  desc,
+  getTableColumns,
+  inArray,
+  isNull,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+
+// Highlight options passed to ts_headline
+const HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter= … ";
+
+// Cursor IDs are blog UUIDs
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Escape <, > and " in a SQL text expression, so the only markup in
+ * ts_headline's output is the <mark> tags it adds
+ */
+function escapeMarkup(text: SQL): SQL {
+  return sql`replace(replace(replace(${text}, '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`;
+}
+
+/**
+ * Options for a blog search
+ */
+export interface SearchOptions {
+  // Raw user query, parsed with websearch_to_tsquery ("quoted phrases", -exclusions, or)
+  query: string;
+  // Statuses to search within (all statuses if omitted)
+  statuses?: string[];
+  // Maximum number of results to return
+  limit: number;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+}
+
+/**
+ * Error thrown when a search cursor can't be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid search cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Encode the rank and ID of the last result into an opaque cursor
+ */
+function encodeCursor(rank: number, id: string): string {
+  return Buffer.from(JSON.stringify([rank, id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+function decodeCursor(cursor: string): { rank: number; id: string } {
+  try {
+    const [rank, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (typeof rank !== "number" || typeof id !== "string" || !UUID_PATTERN.test(id)) {
+      throw new Error();
+    }
+    return { rank, id };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+/**
+ * Search blog posts, ordered by relevance
+ * Each row includes its rank plus highlighted title and content snippets
+ * @returns Matching rows and the cursor for the next page (null on the last page)
+ */
+export async function searchBlogs(options: SearchOptions) {
+  const tsQuery = sql`websearch_to_tsquery('english', ${options.query})`;
+  const rank = sql<number>`ts_rank("blogs"."search_vector", ${tsQuery})`;
+  // Titles are plain text; content is HTML, so its entities are kept as they are
+  const escapedTitle = escapeMarkup(sql`replace(${blogs.title}, '&', '&amp;')`);
+  const plainContent = escapeMarkup(
+    sql`regexp_replace(${blogs.content}, '<[^>]*>', ' ', 'g')`
+  );
+
+  // Trashed posts never show up in search
+  const conditions: SQL[] = [
+    sql`"blogs"."search_vector" @@ ${tsQuery}`,
+    isNull(blogs.deletedAt),
+  ];
+  if (options.statuses?.length) {
+    conditions.push(inArray(blogs.status, options.statuses));
+  }
+  if (options.cursor) {
+    const { rank: lastRank, id: lastId } = decodeCursor(options.cursor);
+    conditions.push(
+      sql`(${rank}, ${blogs.id}) < (${lastRank}::real, ${lastId}::uuid)`
+    );
+  }
+
+  const rows = await db
+    .select({
+      ...getTableColumns(blogs),
+      rank,
+      titleHighlight: sql<string>`ts_headline('english', ${escapedTitle}, ${tsQuery}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+      snippet: sql<string>`ts_headline('english', ${plainContent}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+    })
+    .from(blogs)
+    .where(and(...conditions))
+    .orderBy(desc(rank), desc(blogs.id))
+    .limit(options.limit)
+    .execute();
+
+  // Only hand out a cursor when the page was full
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    rows.length === options.limit ? encodeCursor(Number(last.rank), last.id) : null;
+
+  return { rows, nextCursor };
+}
@@ -0,0 +1,304 @@
+// Admin sessions, access tokens and rotating refresh tokens
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Response } from "express";
+import { and, desc, eq, gt, isNull, ne } from "drizzle-orm";
+import { db } from "../db";
+import { admins, adminSessions, adminRefreshTokens } from "../schema";
+
+// Access tokens are short-lived; revocation is still checked on every request
+export const ACCESS_TOKEN_TTL_SECONDS = 30 * 60; // 30 minutes
+
+// Refresh tokens (and the session they belong to) last a week without use
+export const REFRESH_TOKEN_TTL_SECONDS =
+  Number(process.env.ADMIN_REFRESH_TTL_DAYS || 7) * 24 * 60 * 60;
+
+// Refresh cookie is only sent to the auth routes
+const REFRESH_COOKIE_PATH = "/api/auth";
+
+/**
+ * Claims carried by an admin access token
+ */
+export interface AccessTokenPayload {
+  id: string;
+  username: string;
+  role: string;
+  // Session (refresh token family) the token was issued for
+  sid: string;
+}
+
+/**
+ * Request metadata recorded on a session
+ */
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Outcome of exchanging a refresh token
+ */
+export type RefreshResult =
+  | { status: "ok"; payload: AccessTokenPayload; refreshToken: string }
+  | { status: "invalid" }
+  | { status: "reused" };
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Mint a new refresh token for a session
+ */
+async function issueRefreshToken(sessionId: string): Promise<string> {
+  const token = crypto.randomBytes(48).toString("base64url");
+
+  await db
+    .insert(adminRefreshTokens)
+    .values({
+      sessionId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+    })
+    .execute();
+
+  return token;
+}
+
+/**
+ * Sign an access token for a session
+ */
+export function signAccessToken(payload: AccessTokenPayload): string {
+  return jwt.sign(payload, process.env.JWT_SECRET || "secret", {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Start a new session for an admin who just authenticated
+ * @returns The session ID and its first refresh token
+ */
+export async function createSession(
+  adminId: string,
+  context: SessionContext
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const [session] = await db
+    .insert(adminSessions)
+    .values({
+      adminId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      ipAddress: context.ip,
+      userAgent: context.userAgent,
+    })
+    .returning({ id: adminSessions.id })
+    .execute();
+
+  const refreshToken = await issueRefreshToken(session.id);
+  return { sessionId: session.id, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Each refresh token works once. Presenting one that was already exchanged
+ * means it was stolen or replayed, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(
+  token: string,
+  context: SessionContext
+): Promise<RefreshResult> {
+  const tokenHash = hashToken(token);
+
+  // Atomically claim the token; only one concurrent exchange can win
+  const [claimed] = await db
+    .update(adminRefreshTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(adminRefreshTokens.tokenHash, tokenHash),
+        isNull(adminRefreshTokens.usedAt),
+        gt(adminRefreshTokens.expiresAt, new Date())
+      )
+    )
+    .returning({ sessionId: adminRefreshTokens.sessionId })
+    .execute();
+
+  if (!claimed) {
+    // Reuse detection: the token exists but was already exchanged
+    const [previous] = await db
+      .select({
+        sessionId: adminRefreshTokens.sessionId,
+        usedAt: adminRefreshTokens.usedAt,
+      })
+      .from(adminRefreshTokens)
+      .where(eq(adminRefreshTokens.tokenHash, tokenHash))
+      .execute();
+
+    if (previous?.usedAt) {
+      await revokeSession(previous.sessionId, "refresh_token_reuse");
+      return { status: "reused" };
+    }
+    return { status: "invalid" };
+  }
+
+  // The session and admin must still be active
+  const [session] = await db
+    .select({
+      id: adminSessions.id,
+      adminId: admins.id,
+      username: admins.username,
+      role: admins.role,
+    })
+    .from(adminSessions)
+    .innerJoin(admins, eq(admins.id, adminSessions.adminId))
+    .where(
+      and(
+        eq(adminSessions.id, claimed.sessionId),
+        isNull(adminSessions.revokedAt),
+        gt(adminSessions.expiresAt, new Date()),
+        isNull(admins.disabledAt)
+      )
+    )
+    .execute();
+
+  if (!session) return { status: "invalid" };
+
+  // Sliding expiry: each successful refresh extends the session
+  await db
+    .update(adminSessions)
+    .set({
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      ipAddress: context.ip,
+      userAgent: context.userAgent,
+    })
+    .where(eq(adminSessions.id, session.id))
+    .execute();
+
+  const refreshToken = await issueRefreshToken(session.id);
+
+  return {
+    status: "ok",
+    payload: {
+      id: session.adminId,
+      username: session.username,
+      role: session.role,
+      sid: session.id,
+    },
+    refreshToken,
+  };
+}
+
+/**
+ * Look up the session a refresh token belongs to (used by logout)
+ */
+export async function findSessionByRefreshToken(
+  token: string
+): Promise<string | null> {
+  const [row] = await db
+    .select({ sessionId: adminRefreshTokens.sessionId })
+    .from(adminRefreshTokens)
+    .where(eq(adminRefreshTokens.tokenHash, hashToken(token)))
+    .execute();
+  return row?.sessionId || null;
+}
+
+/**
+ * Revoke a single session; its access and refresh tokens stop working
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: string
+): Promise<void> {
+  await db
+    .update(adminSessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(adminSessions.id, sessionId), isNull(adminSessions.revokedAt)))
+    .execute();
+}
+
+/**
+ * Revoke every active session of an admin
+ * @param exceptSessionId Session to keep (e.g. the one making the request)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  adminId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const revoked = await db
+    .update(adminSessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(
+      and(
+        eq(adminSessions.adminId, adminId),
+        isNull(adminSessions.revokedAt),
+        exceptSessionId ? ne(adminSessions.id, exceptSessionId) : undefined
+      )
+    )
+    .returning({ id: adminSessions.id })
+    .execute();
+  return revoked.length;
+}
+
+/**
+ * List an admin's active sessions, most recently used first
+ */
+export async function listActiveSessions(adminId: string) {
+  return db
+    .select({
+      id: adminSessions.id,
+      createdAt: adminSessions.createdAt,
+      lastUsedAt: adminSessions.lastUsedAt,
+      expiresAt: adminSessions.expiresAt,
+      ipAddress: adminSessions.ipAddress,
+      userAgent: adminSessions.userAgent,
+    })
+    .from(adminSessions)
+    .where(
+      and(
+        eq(adminSessions.adminId, adminId),
+        isNull(adminSessions.revokedAt),
+        gt(adminSessions.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(adminSessions.lastUsedAt))
+    .execute();
+}
+
+/**
+ * Set the access and refresh token cookies
+ */
+export function setAuthCookies(
+  res: Response,
+  accessToken: string,
+  refreshToken: string
+) {
+  res.cookie("admin_token", accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000,
+    sameSite: "lax",
+    signed: true,
+  });
+
+  res.cookie("admin_refresh", refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    maxAge: REFRESH_TOKEN_TTL_SECONDS * 1000,
+    sameSite: "strict",
+    signed: true,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+/**
+ * Clear the access and refresh token cookies
+ */
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("admin_token");
+  res.clearCookie("admin_refresh", { path: REFRESH_COOKIE_PATH });
+}
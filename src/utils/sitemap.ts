@@ -0,0 +1,75 @@
+// XML sitemaps for published posts (https://www.sitemaps.org/protocol.html)
+import { and, asc, count, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { blogs } from "../schema";
+import { PUBLIC_STATUS } from "./lifecycle";
+import { config, postUrl } from "../config";
+import { escapeXml } from "./feeds";
+
+// Most URLs the protocol allows in one sitemap file
+export const SITEMAP_URL_LIMIT = 50000;
+
+const publishedPosts = and(eq(blogs.status, PUBLIC_STATUS), isNull(blogs.deletedAt));
+
+/**
+ * Number of published posts, and so of sitemap URLs
+ */
+export async function countSitemapUrls(): Promise<number> {
+  const [row] = await db.select({ total: count() }).from(blogs).where(publishedPosts).execute();
+  return row.total;
+}
+
+/**
+ * Number of sitemap files needed; 1 means no index is needed
+ */
+export function sitemapPageCount(total: number): number {
+  return Math.max(1, Math.ceil(total / SITEMAP_URL_LIMIT));
+}
+
+/**
+ * Render one <urlset> with up to SITEMAP_URL_LIMIT posts
+ * @param page 1-based page number, in stable submission order
+ */
+export async function renderSitemapPage(page: number): Promise<string> {
+  const rows = await db
+    .select({ slug: blogs.slug, lastModified: blogs.lastModified })
+    .from(blogs)
+    .where(publishedPosts)
+    .orderBy(asc(blogs.submissionDate), asc(blogs.id))
+    .limit(SITEMAP_URL_LIMIT)
+    .offset((page - 1) * SITEMAP_URL_LIMIT)
+    .execute();
+
+  const urls = rows.map(
+    (row) =>
+      `  <url><loc>${escapeXml(postUrl(row.slug))}</loc><lastmod>${row.lastModified.toISOString()}</lastmod></url>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render a <sitemapindex> pointing at every sitemap page
+ * Pages are linked under the site URL, where /sitemap*.xml should be routed here
+ */
+export function renderSitemapIndex(pages: number): string {
+  const extension = config.sitemapGzip ? "xml.gz" : "xml";
+  const entries = Array.from(
+    { length: pages },
+    (_, i) => `  <sitemap><loc>${escapeXml(`${config.siteUrl}/sitemap-${i + 1}.${extension}`)}</loc></sitemap>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    "</sitemapindex>",
+    "",
+  ].join("\n");
+}
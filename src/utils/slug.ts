@@ -0,0 +1,18 @@
+// URL slug helpers
+
+/**
+ * Convert arbitrary text into a lowercase, hyphen-separated URL slug
+ * Accents are stripped and anything that isn't a-z or 0-9 becomes a separator
+ * @param text Source text (e.g. a title or tag name)
+ * @param maxLength Maximum slug length (default 80)
+ */
+export function slugify(text: string, maxLength: number = 80): string {
+  return (text || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
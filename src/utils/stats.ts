@@ -0,0 +1,266 @@
+// Dashboard statistics for the admin overview
+// Dates are UTC days; a range covers whole days from `from` to `to` inclusive
+import { PoolClient } from "pg";
+import { withClient } from "../db";
+
+export const STATS_BUCKETS = ["day", "week"] as const;
+
+export type StatsBucket = (typeof STATS_BUCKETS)[number];
+
+/**
+ * Reporting period, as YYYY-MM-DD (UTC) days
+ */
+export interface StatsRange {
+  from: string;
+  to: string;
+  bucket: StatsBucket;
+}
+
+// Longest range that can be reported at once
+export const MAX_STATS_RANGE_DAYS = 366;
+
+// Range reported when none is given
+const DEFAULT_STATS_RANGE_DAYS = 30;
+
+// Rows in the top posts and top authors lists
+const TOP_LIMIT = 10;
+
+// Pending-queue age bands, in the order they're reported (counted in
+// getDashboardStats; lower bounds inclusive, upper bounds exclusive)
+const PENDING_AGE_BANDS = ["<1d", "1-3d", "3-7d", "7-14d", ">14d"] as const;
+
+type PendingAgeBand = (typeof PENDING_AGE_BANDS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when a requested range is reversed or too long
+ */
+export class InvalidStatsRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidStatsRangeError";
+  }
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Build a range from optional query values, defaulting to the last 30 days
+ * @throws InvalidStatsRangeError if `from` is after `to` or the range is too long
+ */
+export function parseStatsRange(
+  from: string | undefined,
+  to: string | undefined,
+  bucket: string | undefined
+): StatsRange {
+  const end = to ? toDay(new Date(to)) : toDay(new Date());
+  const start = from
+    ? toDay(new Date(from))
+    : toDay(new Date(Date.parse(end) - (DEFAULT_STATS_RANGE_DAYS - 1) * DAY_MS));
+
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS + 1;
+  if (days < 1) {
+    throw new InvalidStatsRangeError("from must not be after to");
+  }
+  if (days > MAX_STATS_RANGE_DAYS) {
+    throw new InvalidStatsRangeError(
+      `The range can cover at most ${MAX_STATS_RANGE_DAYS} days`
+    );
+  }
+
+  return { from: start, to: end, bucket: (bucket as StatsBucket) || "day" };
+}
+
+/**
+ * Start days of every bucket overlapping the range; weeks start on Monday,
+ * like Postgres' date_trunc('week')
+ */
+function bucketStarts(range: StatsRange): string[] {
+  let time = Date.parse(range.from);
+  if (range.bucket === "week") {
+    const weekday = (new Date(time).getUTCDay() + 6) % 7; // Monday = 0
+    time -= weekday * DAY_MS;
+  }
+
+  const step = range.bucket === "week" ? 7 * DAY_MS : DAY_MS;
+  const starts: string[] = [];
+  for (; time <= Date.parse(range.to); time += step) {
+    starts.push(toDay(new Date(time)));
+  }
+  return starts;
+}
+
+/**
+ * Collect the dashboard statistics for a range
+ *   - byStatus: current number of posts in each status (not range-dependent)
+ *   - timeline: submissions and approvals per bucket; buckets without any are 0
+ *   - review: outcomes of posts submitted in the range, approval rate
+ *     (accepted / (accepted + rejected)) and median hours from submission to
+ *     the first review decision
+ *   - topPosts: most viewed posts in the range
+ *   - topAuthors: authors with the most submissions in the range
+ *   - pendingQueue: how long the posts awaiting review right now have waited
+ *     (not range-dependent)
+ * Trashed posts still count as submissions and decisions, but aren't listed
+ */
+export async function getDashboardStats(range: StatsRange) {
+  // Timestamp bounds of the range: [from 00:00, day after to 00:00) UTC
+  const start = new Date(`${range.from}T00:00:00Z`);
+  const end = new Date(Date.parse(range.to) + DAY_MS);
+
+  return withClient(async (client: PoolClient) => {
+    const byStatus = await client.query(
+      `SELECT status, COUNT(*)::int AS count
+       FROM blogs
+       WHERE deleted_at IS NULL
+       GROUP BY status
+       ORDER BY status`
+    );
+
+    const submissions = await client.query<{ bucket: string; count: number }>(
+      `SELECT to_char(date_trunc($3, submission_date AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS bucket,
+              COUNT(*)::int AS count
+       FROM blogs
+       WHERE submission_date >= $1 AND submission_date < $2
+       GROUP BY 1`,
+      [start, end, range.bucket]
+    );
+
+    const approvals = await client.query<{ bucket: string; count: number }>(
+      `SELECT to_char(date_trunc($3, approval_date AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS bucket,
+              COUNT(*)::int AS count
+       FROM blogs
+       WHERE approval_date >= $1 AND approval_date < $2
+       GROUP BY 1`,
+      [start, end, range.bucket]
+    );
+
+    // Posts sent back to pending lose their approval date, so only current
+    // acceptances count
+    const outcomes = await client.query<{
+      submitted: number;
+      accepted: number;
+      rejected: number;
+    }>(
+      `SELECT COUNT(*)::int AS submitted,
+              COUNT(*) FILTER (WHERE approval_date IS NOT NULL)::int AS accepted,
+              COUNT(*) FILTER (WHERE status = 'rejected')::int AS rejected
+       FROM blogs
+       WHERE submission_date >= $1 AND submission_date < $2`,
+      [start, end]
+    );
+
+    // The first status change away from pending is the first review decision
+    const reviewTimes = await client.query<{
+      reviewed: number;
+      median_seconds: number | null;
+    }>(
+      `SELECT COUNT(*)::int AS reviewed,
+              percentile_cont(0.5) WITHIN GROUP (
+                ORDER BY extract(epoch FROM first_review.created_at - b.submission_date)
+              ) AS median_seconds
+       FROM blogs b
+       JOIN LATERAL (
+         SELECT a.created_at
+         FROM admin_audit_log a
+         WHERE a.target_type = 'blog'
+           AND a.target_id = b.id
+           AND a.action = 'blog.status_change'
+           AND a.before->>'status' = 'pending'
+         ORDER BY a.created_at
+         LIMIT 1
+       ) first_review ON true
+       WHERE b.submission_date >= $1 AND b.submission_date < $2`,
+      [start, end]
+    );
+
+    const topPosts = await client.query(
+      `SELECT b.id, b.title, b.slug, b.author_name AS "authorName", SUM(v.views)::int AS views
+       FROM blog_views_daily v
+       JOIN blogs b ON b.id = v.blog_id
+       WHERE v.day >= $1::date AND v.day <= $2::date AND b.deleted_at IS NULL
+       GROUP BY b.id
+       ORDER BY views DESC, b.title
+       LIMIT $3`,
+      [range.from, range.to, TOP_LIMIT]
+    );
+
+    const topAuthors = await client.query(
+      `SELECT author_name AS "authorName",
+              COUNT(*)::int AS submissions,
+              COUNT(*) FILTER (WHERE approval_date IS NOT NULL)::int AS accepted
+       FROM blogs
+       WHERE submission_date >= $1 AND submission_date < $2
+       GROUP BY author_name
+       ORDER BY submissions DESC, accepted DESC, author_name
+       LIMIT $3`,
+      [start, end, TOP_LIMIT]
+    );
+
+    const pending = await client.query<
+      { total: number; oldestSubmittedAt: Date | null } & Record<PendingAgeBand, number>
+    >(
+      `SELECT COUNT(*)::int AS total,
+              MIN(submission_date) AS "oldestSubmittedAt",
+              COUNT(*) FILTER (WHERE age < interval '1 day')::int AS "<1d",
+              COUNT(*) FILTER (WHERE age >= interval '1 day' AND age < interval '3 days')::int AS "1-3d",
+              COUNT(*) FILTER (WHERE age >= interval '3 days' AND age < interval '7 days')::int AS "3-7d",
+              COUNT(*) FILTER (WHERE age >= interval '7 days' AND age < interval '14 days')::int AS "7-14d",
+              COUNT(*) FILTER (WHERE age >= interval '14 days')::int AS ">14d"
+       FROM (
+         SELECT submission_date, now() - submission_date AS age
+         FROM blogs
+         WHERE status = 'pending' AND deleted_at IS NULL
+       ) pending`
+    );
+
+    const submittedBy = new Map<string, number>(
+      submissions.rows.map((row) => [row.bucket, row.count])
+    );
+    const approvedBy = new Map<string, number>(
+      approvals.rows.map((row) => [row.bucket, row.count])
+    );
+    const timeline = bucketStarts(range).map((bucket) => ({
+      bucket,
+      submissions: submittedBy.get(bucket) || 0,
+      approvals: approvedBy.get(bucket) || 0,
+    }));
+
+    const { submitted, accepted, rejected } = outcomes.rows[0];
+    const { reviewed, median_seconds: medianSeconds } = reviewTimes.rows[0];
+
+    const { total, oldestSubmittedAt, ...ageCounts } = pending.rows[0];
+
+    return {
+      range,
+      byStatus: byStatus.rows,
+      timeline,
+      totals: {
+        submissions: submitted,
+        approvals: timeline.reduce((sum, row) => sum + row.approvals, 0),
+      },
+      review: {
+        submitted,
+        accepted,
+        rejected,
+        approvalRate:
+          accepted + rejected > 0
+            ? Math.round((accepted / (accepted + rejected)) * 1000) / 1000
+            : null,
+        reviewed,
+        medianHoursToReview:
+          medianSeconds === null ? null : Math.round((Number(medianSeconds) / 3600) * 10) / 10,
+      },
+      topPosts: topPosts.rows,
+      topAuthors: topAuthors.rows,
+      pendingQueue: {
+        total,
+        oldestSubmittedAt,
+        ages: PENDING_AGE_BANDS.map((label) => ({ label, count: ageCounts[label] })),
+      },
+    };
+  });
+}
@@ -0,0 +1,165 @@
+// "Request changes" loop: review rounds and the private edit links sent to authors
+import jwt from "jsonwebtoken";
+import { and, asc, eq, isNull, sql } from "drizzle-orm";
+import { db, Transaction } from "../db";
+import { blogs, blogReviewRounds } from "../schema";
+
+// How long an edit link stays valid
+const EDIT_TOKEN_TTL_SECONDS =
+  Number(process.env.SUBMISSION_EDIT_TTL_DAYS || 14) * 24 * 60 * 60;
+
+/**
+ * Claims of a submission edit token
+ */
+interface EditTokenPayload {
+  id: string; // Blog post ID
+  round: number; // Review round the link belongs to
+  purpose: "submission_edit";
+}
+
+/**
+ * Why an edit token can't be used
+ *   - invalid: bad signature, expired or not an edit token
+ *   - closed: the round was already resubmitted, superseded, or the post moved on
+ */
+export type EditTokenError = "invalid" | "closed";
+
+/**
+ * Start a review round and sign the author's edit link for it
+ * Call in the same transaction that moves the post to changes_requested
+ * @returns The round and its edit token
+ */
+export async function openReviewRound(
+  tx: Transaction,
+  blogId: string,
+  feedback: string,
+  adminId: string | null
+) {
+  const expiresAt = new Date(Date.now() + EDIT_TOKEN_TTL_SECONDS * 1000);
+
+  const [round] = await tx
+    .insert(blogReviewRounds)
+    .values({
+      blogId,
+      roundNumber: sql`(SELECT coalesce(max(${blogReviewRounds.roundNumber}), 0) + 1 FROM ${blogReviewRounds} WHERE ${blogReviewRounds.blogId} = ${blogId})`,
+      feedback,
+      requestedBy: adminId,
+      expiresAt,
+    })
+    .returning()
+    .execute();
+
+  const payload: EditTokenPayload = {
+    id: blogId,
+    round: round.roundNumber,
+    purpose: "submission_edit",
+  };
+  const token = jwt.sign(payload, process.env.JWT_SECRET || "secret", {
+    expiresIn: EDIT_TOKEN_TTL_SECONDS,
+  });
+
+  return { round, token };
+}
+
+/**
+ * Verify an edit token's signature and expiry
+ * @returns The post ID and round number, or null if the token is invalid
+ */
+export function verifyEditToken(
+  token: string
+): { blogId: string; round: number } | null {
+  try {
+    const payload = jwt.verify(
+      token,
+      process.env.JWT_SECRET || "secret"
+    ) as EditTokenPayload;
+    if (payload.purpose !== "submission_edit") return null;
+    return { blogId: payload.id, round: payload.round };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List a post's review rounds, oldest first
+ */
+export async function listReviewRounds(blogId: string) {
+  return db
+    .select({
+      roundNumber: blogReviewRounds.roundNumber,
+      feedback: blogReviewRounds.feedback,
+      requestedBy: blogReviewRounds.requestedBy,
+      requestedAt: blogReviewRounds.requestedAt,
+      expiresAt: blogReviewRounds.expiresAt,
+      resubmittedAt: blogReviewRounds.resubmittedAt,
+      revisionId: blogReviewRounds.revisionId,
+    })
+    .from(blogReviewRounds)
+    .where(eq(blogReviewRounds.blogId, blogId))
+    .orderBy(asc(blogReviewRounds.roundNumber))
+    .execute();
+}
+
+/**
+ * Load the submission an edit token belongs to, if the author may still edit it
+ * The token must be for the post's latest, still-open round and the post must
+ * be awaiting changes
+ * @param tx Pass a transaction to lock the round (and so the post) for a resubmission
+ */
+export async function findEditableSubmission(
+  token: string,
+  tx?: Transaction
+): Promise<
+  | { error: EditTokenError }
+  | {
+      blog: typeof blogs.$inferSelect;
+      round: typeof blogReviewRounds.$inferSelect;
+    }
+> {
+  const claims = verifyEditToken(token);
+  if (!claims) return { error: "invalid" };
+
+  const executor = tx || db;
+  const query = executor
+    .select({ blog: blogs, round: blogReviewRounds })
+    .from(blogReviewRounds)
+    .innerJoin(blogs, eq(blogs.id, blogReviewRounds.blogId))
+    .where(
+      and(
+        eq(blogReviewRounds.blogId, claims.blogId),
+        eq(blogReviewRounds.roundNumber, claims.round),
+        isNull(blogReviewRounds.resubmittedAt),
+        eq(blogs.status, "changes_requested"),
+        isNull(blogs.deletedAt)
+      )
+    );
+  const [row] = await (tx ? query.for("update") : query).execute();
+
+  if (!row) return { error: "closed" };
+
+  // Only the most recent round's link is live
+  const [latest] = await executor
+    .select({ roundNumber: sql<number>`max(${blogReviewRounds.roundNumber})::int` })
+    .from(blogReviewRounds)
+    .where(eq(blogReviewRounds.blogId, claims.blogId))
+    .execute();
+  if (latest.roundNumber !== claims.round) return { error: "closed" };
+
+  return row;
+}
+
+/**
+ * Close a review round after the author resubmitted
+ * @param revisionId Revision created by the resubmission (null if nothing changed)
+ */
+export async function closeReviewRound(
+  tx: Transaction,
+  roundId: string,
+  revisionId: string | null
+) {
+  await tx
+    .update(blogReviewRounds)
+    .set({ resubmittedAt: new Date(), revisionId })
+    .where(eq(blogReviewRounds.id, roundId))
+    .execute();
+}
@@ -0,0 +1,197 @@
+// Tag and category helpers shared by public and admin routes
+import { and, eq, inArray } from "drizzle-orm";
+import { db, Executor } from "../db";
+import { blogTags, blogCategories, tags, categories } from "../schema";
+import { slugify } from "./slug";
+
+/**
+ * A tag or category as exposed in API responses
+ */
+export type TaxonomyTerm = {
+  name: string;
+  slug: string;
+};
+
+/**
+ * Tags and categories attached to a single blog post
+ */
+export type BlogTaxonomy = {
+  tags: TaxonomyTerm[];
+  categories: TaxonomyTerm[];
+};
+
+/**
+ * Normalize user-supplied term names: trim, collapse whitespace and
+ * drop empty or duplicate entries (compared by slug)
+ */
+export function normalizeTerms(names: string[] = []): TaxonomyTerm[] {
+  const seen = new Set<string>();
+  const terms: TaxonomyTerm[] = [];
+
+  for (const raw of names) {
+    const name = String(raw).trim().replace(/\s+/g, " ");
+    const slug = slugify(name, 40);
+    if (!slug || seen.has(slug)) continue;
+    seen.add(slug);
+    terms.push({ name, slug });
+  }
+
+  return terms;
+}
+
+/**
+ * Replace the tags on a blog post, creating any tags that don't exist yet
+ * @param tx Database or transaction to run the queries on
+ * @param blogId Blog post ID
+ * @param names Tag names (unnormalized)
+ */
+export async function setBlogTags(
+  tx: Executor,
+  blogId: string,
+  names: string[]
+): Promise<TaxonomyTerm[]> {
+  const terms = normalizeTerms(names);
+
+  await tx.delete(blogTags).where(eq(blogTags.blogId, blogId)).execute();
+  if (!terms.length) return [];
+
+  await tx.insert(tags).values(terms).onConflictDoNothing().execute();
+
+  const rows = await tx
+    .select({ id: tags.id, name: tags.name, slug: tags.slug })
+    .from(tags)
+    .where(
+      inArray(
+        tags.slug,
+        terms.map((t) => t.slug)
+      )
+    )
+    .execute();
+
+  await tx
+    .insert(blogTags)
+    .values(rows.map((row) => ({ blogId, tagId: row.id })))
+    .execute();
+
+  return rows.map(({ name, slug }) => ({ name, slug }));
+}
+
+/**
+ * Replace the categories on a blog post, creating any categories that don't exist yet
+ * @param tx Database or transaction to run the queries on
+ * @param blogId Blog post ID
+ * @param names Category names (unnormalized)
+ */
+export async function setBlogCategories(
+  tx: Executor,
+  blogId: string,
+  names: string[]
+): Promise<TaxonomyTerm[]> {
+  const terms = normalizeTerms(names);
+
+  await tx
+    .delete(blogCategories)
+    .where(eq(blogCategories.blogId, blogId))
+    .execute();
+  if (!terms.length) return [];
+
+  await tx.insert(categories).values(terms).onConflictDoNothing().execute();
+
+  const rows = await tx
+    .select({ id: categories.id, name: categories.name, slug: categories.slug })
+    .from(categories)
+    .where(
+      inArray(
+        categories.slug,
+        terms.map((t) => t.slug)
+      )
+    )
+    .execute();
+
+  await tx
+    .insert(blogCategories)
+    .values(rows.map((row) => ({ blogId, categoryId: row.id })))
+    .execute();
+
+  return rows.map(({ name, slug }) => ({ name, slug }));
+}
+
+/**
+ * Load tags and categories for a set of blog posts in two queries
+ * @param executor Database or transaction to read from
+ * @returns Map of blog ID to its taxonomy (every requested ID is present)
+ */
+export async function getTaxonomyForBlogs(
+  blogIds: string[],
+  executor: Executor = db
+): Promise<Map<string, BlogTaxonomy>> {
+  const result = new Map<string, BlogTaxonomy>();
+  for (const id of blogIds) result.set(id, { tags: [], categories: [] });
+  if (!blogIds.length) return result;
+
+  const [tagRows, categoryRows] = await Promise.all([
+    executor
+      .select({ blogId: blogTags.blogId, name: tags.name, slug: tags.slug })
+      .from(blogTags)
+      .innerJoin(tags, eq(tags.id, blogTags.tagId))
+      .where(inArray(blogTags.blogId, blogIds))
+      .orderBy(tags.name)
+      .execute(),
+    executor
+      .select({
+        blogId: blogCategories.blogId,
+        name: categories.name,
+        slug: categories.slug,
+      })
+      .from(blogCategories)
+      .innerJoin(categories, eq(categories.id, blogCategories.categoryId))
+      .where(inArray(blogCategories.blogId, blogIds))
+      .orderBy(categories.name)
+      .execute(),
+  ]);
+
+  for (const { blogId, name, slug } of tagRows) {
+    result.get(blogId)?.tags.push({ name, slug });
+  }
+  for (const { blogId, name, slug } of categoryRows) {
+    result.get(blogId)?.categories.push({ name, slug });
+  }
+
+  return result;
+}
+
+/**
+ * Attach tags and categories to blog rows
+ */
+export async function withTaxonomy<T extends { id: string }>(
+  rows: T[]
+): Promise<(T & BlogTaxonomy)[]> {
+  const taxonomy = await getTaxonomyForBlogs(rows.map((row) => row.id));
+  return rows.map((row) => ({ ...row, ...taxonomy.get(row.id) }));
+}
+
+/**
+ * Subquery of blog IDs carrying the given tag slug
+ */
+export function blogIdsWithTag(slug: string) {
+  return db
+    .select({ id: blogTags.blogId })
+    .from(blogTags)
+    .innerJoin(tags, and(eq(tags.id, blogTags.tagId), eq(tags.slug, slug)));
+}
+
+/**
+ * Subquery of blog IDs filed under the given category slug
+ */
+export function blogIdsInCategory(slug: string) {
+  return db
+    .select({ id: blogCategories.blogId })
+    .from(blogCategories)
+    .innerJoin(
+      categories,
+      and(
+        eq(categories.id, blogCategories.categoryId),
+        eq(categories.slug, slug)
+      )
+    );
+}
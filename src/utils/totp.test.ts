@@ -0,0 +1,105 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  base32Decode,
+  base32Encode,
+  generateHOTP,
+  generateTOTP,
+  TotpAlgorithm,
+  verifyTOTP,
+} from "./totp";
+
+// RFC 6238 appendix B: shared secrets for each algorithm (ASCII)
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+};
+
+// RFC 6238 appendix B: Unix time (seconds) -> 8-digit code per algorithm
+const VECTORS: { time: number; sha1: string; sha256: string; sha512: string }[] = [
+  { time: 59, sha1: "94287082", sha256: "46119246", sha512: "90693936" },
+  { time: 1111111109, sha1: "07081804", sha256: "68084774", sha512: "25091201" },
+  { time: 1111111111, sha1: "14050471", sha256: "67062674", sha512: "99943326" },
+  { time: 1234567890, sha1: "89005924", sha256: "91819424", sha512: "93441116" },
+  { time: 2000000000, sha1: "69279037", sha256: "90698825", sha512: "38618901" },
+  { time: 20000000000, sha1: "65353130", sha256: "77737706", sha512: "47863826" },
+];
+
+describe("generateTOTP", () => {
+  for (const algorithm of ["sha1", "sha256", "sha512"] as TotpAlgorithm[]) {
+    for (const vector of VECTORS) {
+      test(`matches RFC 6238 ${algorithm.toUpperCase()} at T=${vector.time}`, () => {
+        const code = generateTOTP(SEEDS[algorithm], {
+          time: vector.time * 1000,
+          digits: 8,
+          algorithm,
+        });
+        assert.equal(code, vector[algorithm]);
+      });
+    }
+  }
+
+  test("defaults to 6 digits", () => {
+    assert.equal(generateTOTP(SEEDS.sha1, { time: 59 * 1000 }), "287082");
+  });
+});
+
+describe("generateHOTP", () => {
+  // RFC 4226 appendix D
+  const expected = ["755224", "287082", "359152", "969429", "338314"];
+
+  for (const [counter, code] of expected.entries()) {
+    test(`matches RFC 4226 for counter ${counter}`, () => {
+      assert.equal(generateHOTP(SEEDS.sha1, counter), code);
+    });
+  }
+});
+
+describe("verifyTOTP", () => {
+  const time = 1111111109 * 1000;
+
+  test("returns the matching time step", () => {
+    const code = generateTOTP(SEEDS.sha1, { time });
+    assert.equal(verifyTOTP(SEEDS.sha1, code, { time }), Math.floor(1111111109 / 30));
+  });
+
+  test("accepts codes one step either side of now", () => {
+    const previous = generateTOTP(SEEDS.sha1, { time: time - 30 * 1000 });
+    const next = generateTOTP(SEEDS.sha1, { time: time + 30 * 1000 });
+    assert.notEqual(verifyTOTP(SEEDS.sha1, previous, { time }), null);
+    assert.notEqual(verifyTOTP(SEEDS.sha1, next, { time }), null);
+  });
+
+  test("rejects codes outside the window", () => {
+    const old = generateTOTP(SEEDS.sha1, { time: time - 90 * 1000 });
+    assert.equal(verifyTOTP(SEEDS.sha1, old, { time }), null);
+  });
+
+  test("ignores spaces and rejects malformed codes", () => {
+    const code = generateTOTP(SEEDS.sha1, { time });
+    assert.notEqual(verifyTOTP(SEEDS.sha1, `${code.slice(0, 3)} ${code.slice(3)}`, { time }), null);
+    assert.equal(verifyTOTP(SEEDS.sha1, "12345", { time }), null);
+    assert.equal(verifyTOTP(SEEDS.sha1, "abcdef", { time }), null);
+    assert.equal(verifyTOTP(SEEDS.sha1, "", { time }), null);
+  });
+});
+
+describe("base32", () => {
+  test("encodes RFC 4648 test vectors without padding", () => {
+    assert.equal(base32Encode(Buffer.from("f")), "MY");
+    assert.equal(base32Encode(Buffer.from("foobar")), "MZXW6YTBOI");
+  });
+
+  test("decodes case-insensitively, ignoring spaces and padding", () => {
+    assert.equal(base32Decode("mzxw 6ytb oi======").toString(), "foobar");
+  });
+
+  test("round-trips a secret", () => {
+    assert.deepEqual(base32Decode(base32Encode(SEEDS.sha512)), SEEDS.sha512);
+  });
+
+  test("rejects characters outside the alphabet", () => {
+    assert.throws(() => base32Decode("MZ1W"), /Invalid base32 character/);
+  });
+});
@@ -0,0 +1,171 @@
+// RFC 4226 (HOTP) and RFC 6238 (TOTP) one-time passwords
+import crypto from "crypto";
+
+// RFC 4648 base32 alphabet, used by authenticator apps for shared secrets
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+/**
+ * TOTP parameters; the defaults match what authenticator apps expect
+ */
+export interface TotpOptions {
+  // Unix time in milliseconds to generate/verify for (default: now)
+  time?: number;
+  // Time step in seconds (default 30)
+  step?: number;
+  // Number of digits in the code (default 6)
+  digits?: number;
+  // HMAC algorithm (default sha1)
+  algorithm?: TotpAlgorithm;
+}
+
+/**
+ * Encode bytes as unpadded base32
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32 (case-insensitive, ignoring spaces and padding)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate an HOTP code for a counter value (RFC 4226)
+ */
+export function generateHOTP(
+  secret: Buffer,
+  counter: number,
+  digits: number = 6,
+  algorithm: TotpAlgorithm = "sha1"
+): string {
+  // 8-byte big-endian counter
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac(algorithm, secret).update(message).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/**
+ * Get the TOTP time-step counter for a point in time
+ */
+export function totpCounter(time: number = Date.now(), step: number = 30) {
+  return Math.floor(time / 1000 / step);
+}
+
+/**
+ * Generate a TOTP code (RFC 6238)
+ */
+export function generateTOTP(secret: Buffer, options: TotpOptions = {}): string {
+  return generateHOTP(
+    secret,
+    totpCounter(options.time, options.step),
+    options.digits,
+    options.algorithm
+  );
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps either way
+ * @returns The matching time-step counter (store it to prevent replays), or null
+ */
+export function verifyTOTP(
+  secret: Buffer,
+  code: string,
+  options: TotpOptions & { window?: number } = {}
+): number | null {
+  const digits = options.digits || 6;
+  const window = options.window ?? 1;
+  const normalized = String(code || "").replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return null;
+
+  const current = totpCounter(options.time, options.step);
+  for (let drift = -window; drift <= window; drift++) {
+    const candidate = generateHOTP(
+      secret,
+      current + drift,
+      digits,
+      options.algorithm
+    );
+    if (
+      crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))
+    ) {
+      return current + drift;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generate a random 160-bit secret, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Build an otpauth:// URI for enrolling a secret in an authenticator app
+ */
+export function buildOtpauthUri(
+  issuer: string,
+  account: string,
+  secret: string
+): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: "6",
+    period: "30",
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
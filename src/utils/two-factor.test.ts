@@ -0,0 +1,82 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  createTestAdmin,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { adminRecoveryCodes } from "../schema";
+import { regenerateRecoveryCodes, useRecoveryCode } from "./two-factor";
+
+describe("recovery codes", requiresDatabase, () => {
+  let adminId: string;
+
+  before(migrateTestDatabase);
+  after(closeTestDatabase);
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    adminId = await createTestAdmin();
+  });
+
+  test("are stored as SHA-256 hashes, never in plaintext", async () => {
+    const codes = await regenerateRecoveryCodes(adminId);
+    const rows = await db
+      .select({ codeHash: adminRecoveryCodes.codeHash })
+      .from(adminRecoveryCodes)
+      .where(eq(adminRecoveryCodes.adminId, adminId))
+      .execute();
+
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, codes.length);
+    for (const code of codes) assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+
+    // Hashed without the dash
+    const expected = codes.map((code) =>
+      crypto.createHash("sha256").update(code.replace("-", "")).digest("hex")
+    );
+    assert.deepEqual(rows.map((row) => row.codeHash).sort(), expected.sort());
+  });
+
+  test("can each be used once", async () => {
+    const [code] = await regenerateRecoveryCodes(adminId);
+
+    assert.equal(await useRecoveryCode(adminId, code), true);
+    assert.equal(await useRecoveryCode(adminId, code), false);
+  });
+
+  test("are compared without dashes, spaces or case", async () => {
+    const [first, second] = await regenerateRecoveryCodes(adminId);
+
+    assert.equal(await useRecoveryCode(adminId, first.replace("-", "").toUpperCase()), true);
+    assert.equal(await useRecoveryCode(adminId, ` ${second.replace("-", " - ")} `), true);
+  });
+
+  test("only work for the admin they were issued to", async () => {
+    const [code] = await regenerateRecoveryCodes(adminId);
+    const otherAdmin = await createTestAdmin("other-admin");
+
+    assert.equal(await useRecoveryCode(otherAdmin, code), false);
+    assert.equal(await useRecoveryCode(adminId, code), true);
+  });
+
+  test("stop working once replaced", async () => {
+    const [oldCode] = await regenerateRecoveryCodes(adminId);
+    const [newCode] = await regenerateRecoveryCodes(adminId);
+
+    assert.equal(await useRecoveryCode(adminId, oldCode), false);
+    assert.equal(await useRecoveryCode(adminId, newCode), true);
+  });
+
+  test("reject empty and unknown codes", async () => {
+    await regenerateRecoveryCodes(adminId);
+
+    assert.equal(await useRecoveryCode(adminId, ""), false);
+    assert.equal(await useRecoveryCode(adminId, "00000-00000"), false);
+  });
+});
@@ -0,0 +1,211 @@
+// Admin two-factor authentication: enrollment, verification and recovery codes
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { db, Executor } from "../db";
+import { admins, adminRecoveryCodes } from "../schema";
+import {
+  base32Decode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTOTP,
+} from "./totp";
+
+// Issuer shown in authenticator apps
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Blog Admin";
+
+// Number of recovery codes issued at a time
+const RECOVERY_CODE_COUNT = 10;
+
+// How long a password-verified login may wait for its second factor
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/**
+ * Claims of a login challenge token (issued after the password check)
+ */
+interface ChallengePayload {
+  id: string;
+  purpose: "2fa";
+}
+
+/**
+ * Hash a recovery code for storage; codes are compared without dashes or case
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Start (or restart) enrollment by storing a new pending secret
+ * @returns The secret and an otpauth:// URI for authenticator apps
+ */
+export async function beginEnrollment(adminId: string, username: string) {
+  const secret = generateTotpSecret();
+
+  await db
+    .update(admins)
+    .set({ totpSecret: secret, totpEnabledAt: null, totpLastCounter: null })
+    .where(eq(admins.id, adminId))
+    .execute();
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(TOTP_ISSUER, username, secret),
+  };
+}
+
+/**
+ * Replace an admin's recovery codes with a fresh set
+ * @returns The plaintext codes; they are only ever shown once
+ */
+export async function regenerateRecoveryCodes(adminId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(adminRecoveryCodes)
+      .where(eq(adminRecoveryCodes.adminId, adminId))
+      .execute();
+    await tx
+      .insert(adminRecoveryCodes)
+      .values(codes.map((code) => ({ adminId, codeHash: hashRecoveryCode(code) })))
+      .execute();
+  });
+
+  return codes;
+}
+
+/**
+ * Verify a TOTP code for an admin and record its time step so it can't be replayed
+ * @param requireEnabled Whether 2FA must already be active (false during enrollment)
+ */
+export async function verifyAdminTotp(
+  adminId: string,
+  code: string,
+  requireEnabled: boolean = true
+): Promise<boolean> {
+  const [admin] = await db
+    .select({
+      secret: admins.totpSecret,
+      enabledAt: admins.totpEnabledAt,
+    })
+    .from(admins)
+    .where(eq(admins.id, adminId))
+    .execute();
+
+  if (!admin?.secret) return false;
+  if (requireEnabled && !admin.enabledAt) return false;
+
+  const counter = verifyTOTP(base32Decode(admin.secret), code);
+  if (counter === null) return false;
+
+  // Accept each time step at most once
+  const claimed = await db
+    .update(admins)
+    .set({ totpLastCounter: counter })
+    .where(
+      and(
+        eq(admins.id, adminId),
+        or(isNull(admins.totpLastCounter), lt(admins.totpLastCounter, counter))
+      )
+    )
+    .returning({ id: admins.id })
+    .execute();
+
+  return claimed.length > 0;
+}
+
+/**
+ * Consume a recovery code
+ * @returns true if the code was valid and unused
+ */
+export async function useRecoveryCode(
+  adminId: string,
+  code: string
+): Promise<boolean> {
+  const used = await db
+    .update(adminRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(adminRecoveryCodes.adminId, adminId),
+        eq(adminRecoveryCodes.codeHash, hashRecoveryCode(code || "")),
+        isNull(adminRecoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: adminRecoveryCodes.id })
+    .execute();
+
+  return used.length > 0;
+}
+
+/**
+ * Finish enrollment once the admin proves their app produces valid codes
+ * @returns Fresh recovery codes, or null if the code was wrong
+ */
+export async function activateTwoFactor(
+  adminId: string,
+  code: string
+): Promise<string[] | null> {
+  if (!(await verifyAdminTotp(adminId, code, false))) return null;
+
+  await db
+    .update(admins)
+    .set({ totpEnabledAt: new Date() })
+    .where(eq(admins.id, adminId))
+    .execute();
+
+  return regenerateRecoveryCodes(adminId);
+}
+
+/**
+ * Turn 2FA off and discard the secret and recovery codes
+ * Used when an admin disables it themselves or a superadmin resets it
+ * @param executor Database or transaction to run the queries on
+ */
+export async function resetTwoFactor(
+  adminId: string,
+  executor: Executor = db
+): Promise<void> {
+  await executor.transaction(async (tx) => {
+    await tx
+      .update(admins)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastCounter: null })
+      .where(eq(admins.id, adminId))
+      .execute();
+    await tx
+      .delete(adminRecoveryCodes)
+      .where(eq(adminRecoveryCodes.adminId, adminId))
+      .execute();
+  });
+}
+
+/**
+ * Sign a short-lived challenge token for a login awaiting its second factor
+ */
+export function signLoginChallenge(adminId: string): string {
+  const payload: ChallengePayload = { id: adminId, purpose: "2fa" };
+  return jwt.sign(payload, process.env.JWT_SECRET || "secret", {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  });
+}
+
+/**
+ * Verify a login challenge token
+ * @returns The admin ID, or null if the token is invalid, expired or not a challenge
+ */
+export function verifyLoginChallenge(token: string): string | null {
+  try {
+    const payload = jwt.verify(
+      token,
+      process.env.JWT_SECRET || "secret"
+    ) as ChallengePayload;
+    return payload.purpose === "2fa" ? payload.id : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,349 @@
+// View counting for published posts
+// Views are filtered for bots, deduplicated per visitor, buffered (in Redis when
+// REDIS_URL is set, so all workers share one buffer; otherwise in memory) and
+// written to blog_views_daily and blogs.views together in batches
+import crypto from "crypto";
+import { Request } from "express";
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { db, withClient } from "../db";
+import { blogs, blogViewsDaily } from "../schema";
+import { config } from "../config";
+import type Redis from "ioredis";
+import { getRedis, isRedisReady } from "./redis";
+
+// Repeat views of a post by the same visitor within this window count once
+const VIEW_DEDUPE_SECONDS = Number(process.env.VIEW_DEDUPE_MINUTES || 30) * 60;
+
+// Most visitors remembered for dedupe while Redis isn't available; the oldest
+// are forgotten first, so under heavy traffic some repeat views count again
+const VIEW_DEDUPE_MAX_ENTRIES = Number(process.env.VIEW_DEDUPE_MAX_ENTRIES || 100000);
+
+// How often buffered views are written to the database
+const VIEW_FLUSH_INTERVAL_MS = Number(process.env.VIEW_FLUSH_SECONDS || 10) * 1000;
+
+// How often to look for claimed Redis buffers a flush couldn't read
+const CLAIM_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// User agents that aren't people reading: crawlers, previews, monitors, HTTP libraries
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|archiver|preview|facebookexternalhit|embedly|headless|phantomjs|lighthouse|pingdom|uptime|monitor|curl|wget|python-requests|python-urllib|aiohttp|httpclient|okhttp|axios|node-fetch|undici|go-http-client|java\/|libwww|scrapy/i;
+
+// Most referring sites listed in analytics
+const TOP_REFERRERS = 20;
+
+// Redis hash of buffered counts, prefix of the buffers claimed by a flush,
+// and prefix of the per-visitor dedupe keys
+const REDIS_BUFFER_KEY = "views:buffer";
+const REDIS_CLAIM_PREFIX = "views:flushing:";
+const REDIS_SEEN_PREFIX = "views:seen:";
+
+// Buffered counts by "<blogId>|<day>|<referrer>", used while Redis isn't
+const buffer: Map<string, number> = new Map();
+
+// Visitor dedupe keys -> when they stop suppressing views (ms)
+// Every entry lasts VIEW_DEDUPE_SECONDS, so insertion order is expiry order
+const seen: Map<string, number> = new Map();
+
+// When this worker last swept for leftover claimed buffers (ms)
+let lastClaimSweep = 0;
+
+/**
+ * Whether a user agent looks automated
+ * Requests without one are treated as automated too
+ */
+export function isBot(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Host of the referring page, or "" for direct visits and links within the site
+ */
+function referrerHost(referrer: string | undefined): string {
+  if (!referrer) return "";
+  try {
+    const host = new URL(referrer).hostname.toLowerCase().replace(/^www\./, "");
+    const ownHost = new URL(config.siteUrl).hostname.toLowerCase().replace(/^www\./, "");
+    return host === ownHost ? "" : host.slice(0, 255);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Remember a visitor's view in memory, forgetting expired entries and, past
+ * VIEW_DEDUPE_MAX_ENTRIES, the oldest ones
+ */
+function markSeen(seenKey: string, now: number) {
+  // Re-inserting keeps the map in expiry order
+  seen.delete(seenKey);
+  seen.set(seenKey, now + VIEW_DEDUPE_SECONDS * 1000);
+
+  for (const [key, until] of seen) {
+    if (until > now && seen.size <= VIEW_DEDUPE_MAX_ENTRIES) break;
+    seen.delete(key);
+  }
+}
+
+/**
+ * Add counts to the in-memory buffer
+ */
+function addToBuffer(counts: Map<string, number>) {
+  for (const [field, views] of counts) {
+    buffer.set(field, (buffer.get(field) || 0) + views);
+  }
+}
+
+/**
+ * Count a view of a published post, unless it comes from a bot or the same
+ * visitor (hashed IP + user agent) already viewed the post recently
+ * @returns Whether the view was counted
+ */
+export async function recordView(blogId: string, req: Request): Promise<boolean> {
+  const userAgent = req.get("user-agent");
+  if (isBot(userAgent)) return false;
+
+  const visitor = crypto
+    .createHash("sha256")
+    .update(`${req.ip || "unknown"}|${userAgent}`)
+    .digest("hex");
+  const seenKey = `${blogId}:${visitor}`;
+  const day = new Date().toISOString().slice(0, 10);
+  const field = `${blogId}|${day}|${referrerHost(req.get("referer"))}`;
+
+  const redis = getRedis();
+  if (redis && isRedisReady()) {
+    try {
+      const first = await redis.set(
+        REDIS_SEEN_PREFIX + seenKey,
+        "1",
+        "EX",
+        VIEW_DEDUPE_SECONDS,
+        "NX"
+      );
+      if (first !== "OK") return false;
+
+      await redis.hincrby(REDIS_BUFFER_KEY, field, 1);
+      return true;
+    } catch (error) {
+      console.error("Failed to record view in Redis, buffering in memory:", error);
+    }
+  }
+
+  const now = Date.now();
+  if ((seen.get(seenKey) || 0) > now) return false;
+  markSeen(seenKey, now);
+
+  addToBuffer(new Map([[field, 1]]));
+  return true;
+}
+
+/**
+ * Read and delete a claimed Redis buffer in one transaction, adding it to counts
+ * If that fails the claim is left in place for a later sweep to pick up
+ */
+async function readClaim(redis: Redis, claimKey: string, counts: Map<string, number>) {
+  try {
+    const [[error, fields]] = await redis.multi().hgetall(claimKey).del(claimKey).exec();
+    if (error) throw error;
+    for (const [field, views] of Object.entries(fields as Record<string, string>)) {
+      counts.set(field, (counts.get(field) || 0) + Number(views));
+    }
+  } catch (error) {
+    console.error(`Failed to read buffered views from Redis, leaving them in ${claimKey}:`, error);
+  }
+}
+
+/**
+ * Find claimed buffers that a flush (on any worker) failed to read
+ */
+async function findLeftoverClaims(redis: Redis): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = "0";
+  do {
+    const [next, batch] = await redis.scan(cursor, "MATCH", `${REDIS_CLAIM_PREFIX}*`, "COUNT", 100);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== "0");
+  return keys;
+}
+
+/**
+ * Take this worker's buffered counts, plus the shared Redis buffer if no other
+ * worker got to it first
+ * Every so often, claimed buffers left behind by failed reads are taken too
+ */
+async function takeBufferedViews(): Promise<Map<string, number>> {
+  const counts = new Map(buffer);
+  buffer.clear();
+
+  const redis = getRedis();
+  if (!redis || !isRedisReady()) return counts;
+
+  // Renaming claims a buffer atomically, so only one flush reads each one;
+  // new views start a fresh buffer
+  const claim = async (key: string) => {
+    const claimKey = REDIS_CLAIM_PREFIX + crypto.randomUUID();
+    try {
+      await redis.rename(key, claimKey);
+    } catch {
+      // Nothing buffered, another worker claimed it, or Redis went away
+      return;
+    }
+    await readClaim(redis, claimKey, counts);
+  };
+
+  await claim(REDIS_BUFFER_KEY);
+
+  if (Date.now() - lastClaimSweep >= CLAIM_SWEEP_INTERVAL_MS) {
+    lastClaimSweep = Date.now();
+    try {
+      for (const key of await findLeftoverClaims(redis)) {
+        await claim(key);
+      }
+    } catch (error) {
+      console.error("Failed to look for leftover buffered views in Redis:", error);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Write buffered views to the database: the daily table and blogs.views move
+ * together in one transaction
+ * Counts that fail to write go back into the buffer for the next flush
+ * @returns Number of views written
+ */
+export async function flushViews(): Promise<number> {
+  // Forget dedupe entries that have expired (the oldest come first)
+  const now = Date.now();
+  for (const [key, until] of seen) {
+    if (until > now) break;
+    seen.delete(key);
+  }
+
+  const counts = await takeBufferedViews();
+  if (!counts.size) return 0;
+
+  const blogIds: string[] = [];
+  const days: string[] = [];
+  const referrers: string[] = [];
+  const views: number[] = [];
+  for (const [field, count] of counts) {
+    const [blogId, day, referrer] = field.split("|");
+    blogIds.push(blogId);
+    days.push(day);
+    referrers.push(referrer);
+    views.push(count);
+  }
+
+  try {
+    await withClient(async (client) => {
+      try {
+        await client.query("BEGIN");
+        // Posts deleted since the view are skipped
+        await client.query(
+          `INSERT INTO blog_views_daily (blog_id, day, referrer, views)
+           SELECT v.blog_id, v.day, v.referrer, v.views
+           FROM unnest($1::uuid[], $2::date[], $3::text[], $4::int[])
+             AS v(blog_id, day, referrer, views)
+           WHERE EXISTS (SELECT 1 FROM blogs WHERE blogs.id = v.blog_id)
+           ON CONFLICT (blog_id, day, referrer)
+           DO UPDATE SET views = blog_views_daily.views + EXCLUDED.views`,
+          [blogIds, days, referrers, views]
+        );
+        await client.query(
+          `UPDATE blogs SET views = blogs.views + v.views
+           FROM (
+             SELECT blog_id, sum(views)::int AS views
+             FROM unnest($1::uuid[], $2::int[]) AS v(blog_id, views)
+             GROUP BY blog_id
+           ) v
+           WHERE blogs.id = v.blog_id`,
+          [blogIds, views]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  } catch (error) {
+    addToBuffer(counts);
+    throw error;
+  }
+
+  return views.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Flush buffered views every VIEW_FLUSH_INTERVAL_MS
+ * @returns A function that stops the timer and flushes what's left
+ */
+export function startViewFlusher(): () => Promise<void> {
+  let flushing: Promise<unknown> = Promise.resolve();
+
+  const flush = () => {
+    flushing = flushing
+      .then(() => flushViews())
+      .catch((error) => console.error("Failed to flush view counts:", error));
+    return flushing;
+  };
+
+  const timer = setInterval(flush, VIEW_FLUSH_INTERVAL_MS);
+
+  return async () => {
+    clearInterval(timer);
+    await flush();
+  };
+}
+
+/**
+ * Per-day views and top referrers of a post over the last `days` days (UTC)
+ * Days without views are included with 0
+ * @returns null if the post doesn't exist
+ */
+export async function getViewAnalytics(blogId: string, days: number) {
+  const [blog] = await db
+    .select({ id: blogs.id, title: blogs.title, slug: blogs.slug, views: blogs.views })
+    .from(blogs)
+    .where(eq(blogs.id, blogId))
+    .execute();
+  if (!blog) return null;
+
+  const dayList = Array.from({ length: days }, (_, i) =>
+    new Date(Date.now() - (days - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+  const where = and(eq(blogViewsDaily.blogId, blogId), gte(blogViewsDaily.day, dayList[0]));
+  const total = sql<number>`sum(${blogViewsDaily.views})::int`;
+
+  const [perDay, referrers] = await Promise.all([
+    db
+      .select({ day: blogViewsDaily.day, views: total })
+      .from(blogViewsDaily)
+      .where(where)
+      .groupBy(blogViewsDaily.day)
+      .execute(),
+    db
+      .select({ referrer: blogViewsDaily.referrer, views: total })
+      .from(blogViewsDaily)
+      .where(where)
+      .groupBy(blogViewsDaily.referrer)
+      .orderBy(desc(total), blogViewsDaily.referrer)
+      .limit(TOP_REFERRERS)
+      .execute(),
+  ]);
+
+  const viewsByDay = new Map(perDay.map((row) => [row.day, row.views]));
+  const daily = dayList.map((day) => ({ day, views: viewsByDay.get(day) || 0 }));
+
+  return {
+    blog,
+    from: dayList[0],
+    to: dayList[dayList.length - 1],
+    totalViews: daily.reduce((sum, row) => sum + row.views, 0),
+    daily,
+    // "" is direct traffic and links from within the site
+    referrers: referrers.map((row) => ({ referrer: row.referrer || null, views: row.views })),
+  };
+}
@@ -0,0 +1,253 @@
+// Outgoing webhooks for post lifecycle events
+// emitWebhookEvent() only records deliveries and enqueues "webhook.deliver"
+// jobs, so it never throws or slows down the request that triggered it
+import crypto from "crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { webhooks, webhookDeliveries } from "../schema";
+import { enqueueJob } from "../jobs/queue";
+import { BlogStatus } from "../utils/lifecycle";
+
+/**
+ * Events webhooks can subscribe to ("*" subscribes to all of them)
+ */
+export const WEBHOOK_EVENTS = [
+  "post.submitted", // New submission from the public form
+  "post.resubmitted", // Author revised the post after changes were requested
+  "post.approved",
+  "post.scheduled",
+  "post.published",
+  "post.rejected",
+  "post.changes_requested",
+  "post.archived",
+  "post.updated", // Content, title, summary or taxonomy edited by an admin
+  "post.deleted", // Moved to the trash
+  "post.restored", // Taken out of the trash
+  "post.purged", // Permanently deleted
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent only by the "send test event" endpoint
+export const TEST_EVENT = "ping";
+
+// Job type that delivers one webhook event
+export const WEBHOOK_JOB = "webhook.deliver";
+
+// Give up on a receiver that hasn't answered after this long
+const DELIVERY_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10000);
+
+// Characters of the receiver's response kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * Event emitted when a post moves into each status (none for moving back to pending)
+ */
+const STATUS_EVENTS: Record<BlogStatus, WebhookEvent | null> = {
+  pending: null,
+  changes_requested: "post.changes_requested",
+  approved: "post.approved",
+  scheduled: "post.scheduled",
+  published: "post.published",
+  archived: "post.archived",
+  rejected: "post.rejected",
+};
+
+/**
+ * The event for a status change, if there is one
+ */
+export function statusEvent(status: string): WebhookEvent | null {
+  return STATUS_EVENTS[status as BlogStatus] ?? null;
+}
+
+/**
+ * Check whether a value is a known event name
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+/**
+ * Create a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * Sign a request body: hex HMAC-SHA256 of "<timestamp>.<body>"
+ * Receivers recompute this with their copy of the secret and should reject
+ * old timestamps to prevent replays
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * The post fields included in event payloads (never the author's email)
+ */
+export function webhookPost(post: {
+  id: string;
+  title: string;
+  slug: string;
+  summary?: string | null;
+  authorName: string;
+  status: string;
+  submissionDate?: Date | null;
+  publishAt?: Date | null;
+  publishedAt?: Date | null;
+  lastModified?: Date | null;
+}) {
+  return {
+    id: post.id,
+    title: post.title,
+    slug: post.slug,
+    summary: post.summary ?? null,
+    authorName: post.authorName,
+    status: post.status,
+    submissionDate: post.submissionDate ?? null,
+    publishAt: post.publishAt ?? null,
+    publishedAt: post.publishedAt ?? null,
+    lastModified: post.lastModified ?? null,
+  };
+}
+
+/**
+ * Record a delivery of an event to one webhook
+ * @returns The delivery row, holding the exact JSON body to send
+ */
+async function createDelivery(
+  webhookId: string,
+  event: string,
+  data: Record<string, unknown>
+) {
+  const id = crypto.randomUUID();
+  const payload = { id, event, createdAt: new Date().toISOString(), data };
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({ id, webhookId, event, payload })
+    .returning()
+    .execute();
+  return delivery;
+}
+
+/**
+ * Queue delivery attempts for a recorded delivery, unless some already are
+ */
+export async function enqueueDelivery(deliveryId: string) {
+  return enqueueJob(WEBHOOK_JOB, { deliveryId }, { dedupeKey: `webhook:${deliveryId}` });
+}
+
+/**
+ * Queue an event for every active webhook subscribed to it
+ * @returns Number of deliveries queued
+ */
+export async function queueWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<number> {
+  const subscribers = await db
+    .select({ id: webhooks.id })
+    .from(webhooks)
+    .where(
+      and(
+        eq(webhooks.active, true),
+        sql`(${event} = ANY(${webhooks.events}) OR '*' = ANY(${webhooks.events}))`
+      )
+    )
+    .execute();
+
+  for (const webhook of subscribers) {
+    const delivery = await createDelivery(webhook.id, event, data);
+    await enqueueDelivery(delivery.id);
+  }
+  return subscribers.length;
+}
+
+/**
+ * Emit an event in the background; failures are logged, never thrown
+ */
+export function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>) {
+  queueWebhookEvent(event, data).catch((error) =>
+    console.error(`Failed to queue webhook event ${event}:`, error)
+  );
+}
+
+/**
+ * Make one delivery attempt and record its outcome on the delivery row
+ * @param final Whether this is the last attempt; otherwise a failure leaves
+ *        the delivery pending for the next retry
+ * @returns The updated delivery (status "succeeded" only for a 2xx answer),
+ *          or null if it no longer exists
+ */
+export async function deliverWebhook(deliveryId: string, final: boolean) {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, webhook: webhooks })
+    .from(webhookDeliveries)
+    .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .execute();
+  if (!row) return null;
+
+  const { delivery, webhook } = row;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "blog-webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) error = `Receiver responded with HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({
+      status: !error ? "succeeded" : final ? "failed" : "pending",
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      responseStatus,
+      responseBody,
+      lastError: error,
+      durationMs: Date.now() - started,
+      lastAttemptAt: new Date(),
+      deliveredAt: error ? null : new Date(),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning()
+    .execute();
+
+  return updated;
+}
+
+/**
+ * Send a test event to a webhook right away, with a single attempt
+ * @returns The recorded delivery
+ */
+export async function sendTestEvent(webhookId: string) {
+  const delivery = await createDelivery(webhookId, TEST_EVENT, {
+    webhookId,
+    message: "This is a test event",
+  });
+  return deliverWebhook(delivery.id, true);
+}
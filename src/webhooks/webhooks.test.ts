@@ -0,0 +1,200 @@
+import {
+  requiresDatabase,
+  migrateTestDatabase,
+  resetTestDatabase,
+  closeTestDatabase,
+} from "../testing/database";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { jobs, webhooks, webhookDeliveries } from "../schema";
+import { startJobs } from "../jobs";
+import { waitFor } from "../testing/wait";
+import { queueWebhookEvent, sendTestEvent, signPayload, WEBHOOK_JOB } from ".";
+
+const SECRET = "whsec_test";
+
+/**
+ * A request the receiver got
+ */
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local webhook receiver answering with queued responses (200 once they run out)
+ */
+class Receiver {
+  readonly requests: ReceivedRequest[] = [];
+  private responses: { status: number; headers?: Record<string, string> }[] = [];
+  private server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      this.requests.push({ path: req.url, headers: req.headers, body });
+      const next = this.responses.shift() || { status: 200 };
+      res.writeHead(next.status, next.headers).end(`status ${next.status}`);
+    });
+  });
+
+  async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  get url() {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  respondWith(...responses: { status: number; headers?: Record<string, string> }[]) {
+    this.responses.push(...responses);
+  }
+
+  reset() {
+    this.requests.length = 0;
+    this.responses.length = 0;
+  }
+}
+
+describe("webhook delivery", requiresDatabase, () => {
+  const receiver = new Receiver();
+  let webhookId: string;
+  let stopJobs: (() => Promise<void>) | null = null;
+
+  const getDelivery = async () => {
+    const [delivery] = await db.select().from(webhookDeliveries).execute();
+    return delivery;
+  };
+
+  const getWebhookJob = async () => {
+    const [job] = await db.select().from(jobs).where(eq(jobs.type, WEBHOOK_JOB)).execute();
+    return job;
+  };
+
+  // Run a delayed retry now instead of after its backoff
+  const runRetryNow = () =>
+    db.update(jobs).set({ runAt: sql`now()` }).where(eq(jobs.type, WEBHOOK_JOB)).execute();
+
+  before(async () => {
+    await migrateTestDatabase();
+    await receiver.start();
+  });
+
+  after(async () => {
+    await receiver.stop();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    receiver.reset();
+
+    const [webhook] = await db
+      .insert(webhooks)
+      .values({ url: `${receiver.url}/hook`, secret: SECRET, events: ["post.published"] })
+      .returning()
+      .execute();
+    webhookId = webhook.id;
+  });
+
+  afterEach(async () => {
+    if (stopJobs) await stopJobs();
+    stopJobs = null;
+  });
+
+  test("signs the timestamp and body with HMAC-SHA256", async () => {
+    const delivery = await sendTestEvent(webhookId);
+
+    assert.equal(delivery.status, "succeeded");
+    assert.equal(receiver.requests.length, 1);
+
+    const [request] = receiver.requests;
+    const timestamp = request.headers["x-webhook-timestamp"] as string;
+    const expected = crypto
+      .createHmac("sha256", SECRET)
+      .update(`${timestamp}.${request.body}`)
+      .digest("hex");
+
+    assert.equal(request.headers["x-webhook-signature"], `sha256=${expected}`);
+    assert.equal(expected, signPayload(SECRET, Number(timestamp), request.body));
+    assert.ok(Math.abs(Number(timestamp) - Date.now() / 1000) < 60);
+    assert.equal(request.headers["x-webhook-event"], "ping");
+    assert.equal(request.headers["x-webhook-id"], delivery.id);
+    assert.equal(request.headers["content-type"], "application/json");
+    assert.equal(JSON.parse(request.body).id, delivery.id);
+  });
+
+  test("retries after the receiver answers 500", async () => {
+    receiver.respondWith({ status: 500 });
+
+    assert.equal(await queueWebhookEvent("post.published", { post: { id: "1" } }), 1);
+    stopJobs = startJobs();
+
+    // First attempt fails and the job goes back in the queue
+    await waitFor(async () => {
+      const job = await getWebhookJob();
+      return job.attempts === 1 && job.status === "queued";
+    });
+    let delivery = await getDelivery();
+    assert.equal(delivery.status, "pending");
+    assert.equal(delivery.responseStatus, 500);
+    assert.equal(delivery.lastError, "Receiver responded with HTTP 500");
+
+    await runRetryNow();
+    delivery = await waitFor(async () => {
+      const row = await getDelivery();
+      return row.status === "succeeded" && row;
+    });
+
+    assert.equal(delivery.attempts, 2);
+    assert.equal(delivery.responseStatus, 200);
+    assert.ok(delivery.deliveredAt);
+    assert.equal(receiver.requests.length, 2);
+    // Every attempt sends the same event body
+    assert.equal(receiver.requests[0].body, receiver.requests[1].body);
+    await waitFor(async () => (await getWebhookJob()).status === "completed");
+  });
+
+  test("records a failed delivery once attempts run out", async () => {
+    receiver.respondWith({ status: 500 }, { status: 503 });
+
+    await queueWebhookEvent("post.published", { post: { id: "1" } });
+    await db.update(jobs).set({ maxAttempts: 2 }).where(eq(jobs.type, WEBHOOK_JOB)).execute();
+    stopJobs = startJobs();
+
+    await waitFor(async () => (await getDelivery()).attempts === 1);
+    assert.equal((await getDelivery()).status, "pending");
+
+    await runRetryNow();
+    const job = await waitFor(async () => {
+      const row = await getWebhookJob();
+      return row.status === "dead" && row;
+    });
+
+    const delivery = await getDelivery();
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.attempts, 2);
+    assert.equal(delivery.responseStatus, 503);
+    assert.equal(delivery.deliveredAt, null);
+    assert.equal(job.attempts, 2);
+  });
+
+  test("doesn't follow redirects", async () => {
+    receiver.respondWith({ status: 302, headers: { Location: `${receiver.url}/elsewhere` } });
+
+    const delivery = await sendTestEvent(webhookId);
+
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.responseStatus, 302);
+    assert.deepEqual(receiver.requests.map((request) => request.path), ["/hook"]);
+  });
+});